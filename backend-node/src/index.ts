@@ -3,7 +3,13 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import chatRouter from './routes/chatHelper.routes';
 import feedbackRouter from './routes/feedback.routes';
+import documentsRouter from './routes/documents.routes';
+import adminRouter from './routes/admin.routes';
+import memoryRouter from './routes/memory.routes';
+import modelsRouter from './routes/models.routes';
+import attachmentsRouter from './routes/attachments.routes';
 import embeddingService from './services/embedding.service';
+import rerankService from './services/rerank.service';
 import { simpleFetch, Headers, Request, Response } from './utils/simpleFetch';
 import { initDb } from './utils/db'; // Initialize DB
 
@@ -36,11 +42,16 @@ const app = express();
 const port = process.env.PORT || 8000;
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '5mb' })); // Documents can be large
 
 // Routes
 app.use('/api', chatRouter);
 app.use('/api', feedbackRouter);
+app.use('/api', documentsRouter);
+app.use('/api', adminRouter);
+app.use('/api', memoryRouter);
+app.use('/api', modelsRouter);
+app.use('/api', attachmentsRouter);
 
 
 
@@ -56,6 +67,11 @@ app.get('/health', (req, res) => {
         await embeddingService.init();
         console.log(`[Startup] Embedding model loaded in ${Date.now() - startTime}ms`);
 
+        // Reranker is optional: a missing model only disables the stage
+        if (rerankService.isEnabled()) {
+            await rerankService.init();
+        }
+
         app.listen(port, () => {
             console.log(`Server is running on port ${port}`);
         });
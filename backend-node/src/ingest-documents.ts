@@ -0,0 +1,75 @@
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fs from 'fs';
+import path from 'path';
+import { initDb } from './utils/db';
+import ingestionService from './services/ingestion.service';
+
+const SUPPORTED_EXTENSIONS = new Set(['.md', '.markdown', '.txt', '.html', '.htm']);
+
+// Usage: npm run ingest -- <folder> [--tags tag1,tag2]
+function parseArgs(argv: string[]): { folder: string; tags: string[] } {
+    const args = argv.slice(2);
+    const tagsIndex = args.indexOf('--tags');
+    const tags = tagsIndex >= 0 && args[tagsIndex + 1]
+        ? args[tagsIndex + 1].split(',').map(t => t.trim()).filter(Boolean)
+        : [];
+    const folder = args.find((a, i) => !a.startsWith('--') && i !== tagsIndex + 1);
+
+    if (!folder) {
+        console.error('Usage: npm run ingest -- <folder> [--tags tag1,tag2]');
+        process.exit(1);
+    }
+
+    return { folder: path.resolve(folder), tags };
+}
+
+function collectFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...collectFiles(fullPath));
+        } else if (SUPPORTED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+async function main() {
+    const { folder, tags } = parseArgs(process.argv);
+
+    console.log('=== Document Ingestion ===\n');
+    initDb();
+
+    // Give DB moment to init
+    await new Promise(r => setTimeout(r, 500));
+
+    const files = collectFiles(folder);
+    console.log(`Found ${files.length} files in ${folder}\n`);
+
+    let ingested = 0;
+    let failed = 0;
+
+    for (const file of files) {
+        // Relative path keeps document IDs stable across machines
+        const source = path.relative(folder, file);
+        try {
+            const content = fs.readFileSync(file, 'utf-8');
+            const doc = await ingestionService.ingestDocument({ content, source, tags });
+            console.log(`✅ ${source} -> ${doc.id} (${doc.chunk_count} chunks)`);
+            ingested++;
+        } catch (error) {
+            console.error(`❌ ${source}: ${(error as Error).message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\nDone: ${ingested} ingested, ${failed} failed.`);
+}
+
+main().catch(console.error);
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Guard admin routes with the ADMIN_API_KEY shared secret (sent as `x-admin-key`).
+ * Admin routes are disabled entirely when no key is configured.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    const adminKey = process.env.ADMIN_API_KEY;
+
+    if (!adminKey) {
+        res.status(503).json({ error: 'Admin API is disabled (ADMIN_API_KEY not set)' });
+        return;
+    }
+    if (req.header('x-admin-key') !== adminKey) {
+        res.status(401).json({ error: 'Invalid or missing admin key' });
+        return;
+    }
+
+    next();
+}
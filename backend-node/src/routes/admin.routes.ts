@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import correctionService, { CorrectionStateError } from '../services/correction.service';
+import { requireAdmin } from '../middleware/adminAuth';
+import { CorrectionRecord, CorrectionStatus } from '../types/correction';
+
+const router = Router();
+
+const STATUSES: CorrectionStatus[] = ['pending', 'approved', 'rejected', 'retracted'];
+
+router.use('/admin', requireAdmin);
+
+// List corrections, optionally filtered by status
+router.get('/admin/corrections', async (req: Request, res: Response) => {
+    try {
+        const status = req.query.status as CorrectionStatus | undefined;
+        if (status && !STATUSES.includes(status)) {
+            res.status(400).json({ error: `Unknown status "${status}" (expected ${STATUSES.join(', ')})` });
+            return;
+        }
+
+        const corrections = await correctionService.listCorrections(status);
+        res.json({ corrections });
+    } catch (error) {
+        console.error('Error listing corrections:', error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+/**
+ * Shared handler for review actions: 404 for unknown IDs, 409 when the
+ * action doesn't apply to the correction's current status
+ */
+function reviewAction(action: (id: string, req: Request) => Promise<CorrectionRecord | null>) {
+    return async (req: Request, res: Response) => {
+        const id = String(req.params.id);
+        try {
+            const correction = await action(id, req);
+            if (!correction) {
+                res.status(404).json({ error: `Correction ${id} not found` });
+                return;
+            }
+            res.json({ correction });
+        } catch (error) {
+            if (error instanceof CorrectionStateError) {
+                res.status(409).json({ error: error.message });
+                return;
+            }
+            console.error(`Error updating correction ${id}:`, error);
+            res.status(500).json({ error: (error as Error).message });
+        }
+    };
+}
+
+// Edit a pending correction's text
+router.patch('/admin/corrections/:id', async (req: Request, res: Response) => {
+    const { text } = req.body || {};
+    if (typeof text !== 'string' || !text.trim()) {
+        res.status(400).json({ error: 'Missing correction text' });
+        return;
+    }
+    await reviewAction(id => correctionService.editCorrection(id, text.trim()))(req, res);
+});
+
+router.post('/admin/corrections/:id/approve', reviewAction((id, req) => correctionService.approveCorrection(id, req.body?.note)));
+router.post('/admin/corrections/:id/reject', reviewAction((id, req) => correctionService.rejectCorrection(id, req.body?.note)));
+router.post('/admin/corrections/:id/retract', reviewAction((id, req) => correctionService.retractCorrection(id, req.body?.note)));
+
+export default router;
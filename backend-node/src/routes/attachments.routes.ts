@@ -0,0 +1,90 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import attachmentService, { AttachmentError } from '../services/attachment.service';
+
+const router = Router();
+
+/**
+ * Parse a single multipart file (field "file") into memory, within ATTACHMENT_MAX_BYTES
+ */
+function receiveFile(req: Request, res: Response, next: NextFunction): void {
+    const maxBytes = parseInt(process.env.ATTACHMENT_MAX_BYTES || String(2 * 1024 * 1024), 10);
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes, files: 1 } }).single('file');
+
+    upload(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+            const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+            const message = err.code === 'LIMIT_FILE_SIZE' ? `File is larger than ${maxBytes} bytes` : err.message;
+            res.status(status).json({ error: message });
+            return;
+        }
+        next(err);
+    });
+}
+
+// Upload a file into the conversation's attachment namespace
+router.post('/conversations/:id/attachments', receiveFile, async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    if (!req.file) {
+        res.status(400).json({ error: 'Missing file (multipart field "file")' });
+        return;
+    }
+
+    try {
+        const attachment = await attachmentService.addAttachment(id, {
+            filename: req.file.originalname,
+            buffer: req.file.buffer,
+        });
+        res.status(201).json({ attachment });
+    } catch (error) {
+        if (error instanceof AttachmentError) {
+            res.status(422).json({ error: error.message });
+            return;
+        }
+        console.error(`Error adding attachment to ${id}:`, error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// List a conversation's attachments
+router.get('/conversations/:id/attachments', async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    try {
+        const attachments = await attachmentService.listAttachments(id);
+        res.json({ attachments });
+    } catch (error) {
+        console.error(`Error listing attachments of ${id}:`, error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Remove one attachment and its chunks
+router.delete('/conversations/:id/attachments/:attachmentId', async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const attachmentId = String(req.params.attachmentId);
+    try {
+        const deleted = await attachmentService.deleteAttachment(id, attachmentId);
+        if (!deleted) {
+            res.status(404).json({ error: `Attachment ${attachmentId} not found` });
+            return;
+        }
+        res.json({ status: 'success', id: attachmentId });
+    } catch (error) {
+        console.error(`Error deleting attachment ${attachmentId}:`, error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Remove every attachment of a conversation
+router.delete('/conversations/:id/attachments', async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    try {
+        const deleted = await attachmentService.clearAttachments(id);
+        res.json({ status: 'success', deleted });
+    } catch (error) {
+        console.error(`Error clearing attachments of ${id}:`, error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+export default router;
@@ -1,64 +1,203 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { ChatRequest, ChatResponse } from '../types/chat';
-import { detectMode, shouldUseRag, getContextFromMatches, getContextFromHybridResults } from '../services/rag.service';
-import pineconeService from '../services/pinecone.service';
+import { ChatRequest, ChatResponse, ContextReport, InteractionMode, QueryRewriteInfo, ReusedTemplateInfo, Source } from '../types/chat';
+import { RouteDecision } from '../types/router';
+import { LlmCallOptions } from '../types/llm';
+import { shouldUseRag, getContextFromHybridResults } from '../services/rag.service';
+import modeRouter from '../services/router.service';
 import hybridService from '../services/hybrid.service';
-import multiHopService from '../services/multihop.service';
-import llmService from '../services/llm.service';
+import multiHopService, { MultiHopResult } from '../services/multihop.service';
+import llmService, { LlmStreamInterruptedError, LlmUnavailableError } from '../services/llm.service';
+import feedbackService from '../services/feedback.service';
+import condenseService, { CondensedQuery } from '../services/condense.service';
+import reasoningService, { ReasoningResult } from '../services/reasoning.service';
+import attachmentService from '../services/attachment.service';
 import {
-    parseLlmJsonResponse,
+    toResponseBlocks,
     createFallbackResponse,
     createErrorResponse,
     formatSources,
+    blocksToText,
 } from '../utils/formatter';
 // Helper to get prompts
-import { getGeneralPrompt, getRagPrompt, getGeneralStreamingPrompt, getRagStreamingPrompt } from '../utils/prompts';
-// Context window utilities
-import { getContextWindow, appendToContextWindow } from '../utils/contextWindow';
+import { getGeneralPrompt, getRagPrompt, withCanvasInstructions, withConversationSummary, withReasoningNotes } from '../utils/prompts';
+import { validateFusionRequest } from '../utils/fusion';
+import { blocksSchema, StructuredOutputError } from '../utils/structuredOutput';
+import { BlockStreamEvent, BlockStreamParser } from '../utils/blockStreamParser';
+// Conversation memory
+import { ContextWindow, getContextWindow } from '../utils/contextWindow';
+import memoryService from '../services/memory.service';
 
 const router = Router();
 
+const INTERACTION_MODES: InteractionMode[] = ['default', 'think', 'search', 'canvas'];
+
+/**
+ * Error message for request options the server can't honor, or null
+ */
+function validateChatRequest({ fusion, mode, model, thinking }: ChatRequest): string | null {
+    const fusionError = validateFusionRequest(fusion);
+    if (fusionError) return fusionError;
+
+    if (mode !== undefined && !INTERACTION_MODES.includes(mode)) {
+        return `Unknown mode "${mode}" (expected ${INTERACTION_MODES.join(', ')})`;
+    }
+    if (thinking !== undefined && typeof thinking !== 'boolean') {
+        return 'thinking must be true or false';
+    }
+    if (model !== undefined && (typeof model !== 'string' || !llmService.isModelAllowed(model))) {
+        return `Model "${model}" is not available (expected one of ${llmService.getAllowedModels().join(', ')})`;
+    }
+    return null;
+}
+
+/**
+ * Search mode always goes to the knowledge base; otherwise the router decides
+ */
+function routeQuery(query: string, interactionMode: InteractionMode): Promise<RouteDecision> {
+    return interactionMode === 'search'
+        ? Promise.resolve(modeRouter.force('rag_strong'))
+        : modeRouter.route(query);
+}
+
+/**
+ * Layer the conversation summary, canvas formatting and the reasoning pass's plan onto an answer prompt
+ */
+function buildAnswerPrompt(basePrompt: string, memory: ContextWindow, interactionMode: InteractionMode, reasoning?: ReasoningResult): string {
+    const withSummary = withConversationSummary(basePrompt, memory.summary);
+    const prompt = interactionMode === 'canvas' ? withCanvasInstructions(withSummary) : withSummary;
+    return reasoning ? withReasoningNotes(prompt, reasoning.steps) : prompt;
+}
+
+/**
+ * The think pass is optional: if it fails, the answer goes ahead without reasoning notes
+ */
+async function tryReason(requestId: string, message: string, memory: ContextWindow, context: string, options: LlmCallOptions): Promise<ReasoningResult | undefined> {
+    try {
+        return await reasoningService.reason(message, memory, context, options);
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error(`[${requestId}] Reasoning pass failed, answering without it:`, error);
+        return undefined;
+    }
+}
+
+function toTemplateInfo(multiHopResult: MultiHopResult): ReusedTemplateInfo | undefined {
+    const { template } = multiHopResult;
+    return template
+        ? { query_id: template.queryId, query_text: template.queryText, similarity: Number(template.similarity.toFixed(3)) }
+        : undefined;
+}
+
+function toRewriteInfo(condensed: CondensedQuery): QueryRewriteInfo | undefined {
+    return condensed.rewritten
+        ? { original: condensed.original, standalone: condensed.query, cached: condensed.cached }
+        : undefined;
+}
+
+const FALLBACK_TEXT = "I don't have that information in Cogneoverse knowledge.";
+
+/**
+ * SSE-encode block events, resolving citations on each finished block
+ */
+function writeBlockEvents(res: Response, events: BlockStreamEvent[], sources: Source[]): void {
+    for (const event of events) {
+        const payload = event.type === 'block_end'
+            ? { ...event, block: toResponseBlocks([event.block], sources)[0] }
+            : event;
+        res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    }
+}
+
+/**
+ * Log a fallback answer against the multi-hop run so it can still receive feedback
+ */
+async function recordFallback(multiHopResult: MultiHopResult, requestId: string): Promise<ChatResponse> {
+    const fallback = createFallbackResponse();
+    const responseId = await feedbackService.recordResponse(
+        multiHopResult.queryId,
+        JSON.stringify({ blocks: fallback.blocks }),
+        multiHopResult.hopIds,
+        multiHopResult.results.map(r => r.id),
+        hybridService.getHighestScore(multiHopResult.results) ?? 0
+    );
+    return { ...fallback, request_id: requestId, response_id: responseId };
+}
+
 router.post('/chat', async (req: Request, res: Response) => {
-    const { message, conversation_id } = req.body as ChatRequest;
+    const { message, conversation_id, fusion, mode: interactionMode = 'default', model: requestedModel, thinking } = req.body as ChatRequest;
     const requestId = uuidv4().substring(0, 8);
     // Use provided conversation_id or generate one
     const convId = conversation_id || requestId;
 
-    console.log(`[${requestId}] Incoming request: ${message.substring(0, 50)}...`);
+    const requestError = validateChatRequest(req.body as ChatRequest);
+    if (requestError) {
+        res.status(400).json({ error: requestError });
+        return;
+    }
+
+    const think = thinking === true || interactionMode === 'think';
+    const llmOptions = { model: requestedModel };
+
+    console.log(`[${requestId}] Incoming request (${interactionMode}${think ? ', thinking' : ''}): ${message.substring(0, 50)}...`);
 
     try {
         // Retrieve conversation context for continuity
-        const conversationHistory = getContextWindow(convId);
-
-        // Step 1: Detect intent/mode
-        const mode = detectMode(message);
-        console.log(`[${requestId}] Detected mode: ${mode}`);
+        const memory = await getContextWindow(convId);
+        const conversationHistory = memory.turns;
+
+        // Step 1: Rewrite follow-ups into a standalone query, then route it
+        const condenseStart = Date.now();
+        const condensed = await condenseService.condense(message, conversationHistory);
+        const condenseMs = Date.now() - condenseStart;
+        const queryRewrite = toRewriteInfo(condensed);
+        const route = await routeQuery(condensed.query, interactionMode);
+        const { mode } = route;
+        console.log(`[${requestId}] Routed to ${mode} (confidence ${route.confidence})${condensed.rewritten ? ` (standalone: "${condensed.query}")` : ''}`);
 
         // Step 2: Handle general mode
         if (mode === 'general') {
-            const systemPrompt = getGeneralPrompt();
-            const llmResponse = await llmService.callLlm(systemPrompt, message, conversationHistory);
-            console.log(`[${requestId}] LLM Response (General): ${llmResponse.substring(0, 100)}...`);
+            const reasoning = think ? await tryReason(requestId, message, memory, '', llmOptions) : undefined;
+            const systemPrompt = buildAnswerPrompt(getGeneralPrompt(), memory, interactionMode, reasoning);
+            const { content: llmResponse, value, model, attempts } = await llmService.callLlmStructured(blocksSchema, systemPrompt, message, conversationHistory, llmOptions);
+            console.log(`[${requestId}] LLM Response (General, ${model}): ${llmResponse.substring(0, 100)}...`);
 
-            const blocks = parseLlmJsonResponse(llmResponse);
+            const blocks = toResponseBlocks(value.blocks);
 
-            // Append to context window after success
-            appendToContextWindow(convId, 'user', message);
-            appendToContextWindow(convId, 'assistant', llmResponse);
+            // General turns have no retrieval, but still need a query row for feedback
+            const queryId = uuidv4();
+            await feedbackService.logQuery(queryId, condensed.query, message);
+            const responseId = await feedbackService.recordResponse(queryId, llmResponse);
+
+            // Remember the turn after success
+            await memoryService.recordTurn(convId, message, blocksToText(value.blocks));
 
             const response: ChatResponse = {
                 blocks,
                 sources: [],
                 mode: 'general',
                 request_id: requestId,
+                response_id: responseId,
+                reasoning: reasoning?.steps,
+                metadata: {
+                    llm: { model, attempts },
+                    query_rewrite: queryRewrite,
+                    route,
+                    interaction_mode: interactionMode,
+                    reasoning_llm: reasoning?.llm,
+                },
             };
             res.json(response);
             return;
         }
 
         // Step 3: RAG candidate - perform MULTI-HOP search
-        const multiHopResult = await multiHopService.performMultiHopSearch(message);
+        const multiHopResult = await multiHopService.performMultiHopSearch(condensed.query, 1, {
+            fusion,
+            originalQuery: message,
+            // The conversation's attachments are searched alongside the shared index
+            namespace: conversation_id ? attachmentService.getNamespace(conversation_id) : undefined,
+        });
         const hybridResults = multiHopResult.results;
         const highestScore = hybridService.getHighestScore(hybridResults);
 
@@ -66,51 +205,90 @@ router.post('/chat', async (req: Request, res: Response) => {
         if (multiHopResult.generatedQueries.length > 0) {
             console.log(`[${requestId}] Generated queries: ${multiHopResult.generatedQueries.join(', ')}`);
         }
+        if (multiHopResult.template) {
+            console.log(`[${requestId}] Replayed template from "${multiHopResult.template.queryText}" (${multiHopResult.template.similarity.toFixed(3)})`);
+        }
 
-        // Step 4: Decide if RAG should be used
-        const threshold = parseFloat(process.env.RAG_SIMILARITY_THRESHOLD || '0.5'); // Default 0.5
-        const useRag = shouldUseRag(mode, highestScore, threshold);
+        // Step 4: Decide if RAG should be used (router.json's retrieval_thresholds).
+        // RAG_SIMILARITY_THRESHOLD only decides which passages make it into the context.
+        const threshold = parseFloat(process.env.RAG_SIMILARITY_THRESHOLD || '0.5');
+        const useRag = shouldUseRag(mode, highestScore, modeRouter.getRetrievalThresholds());
 
         if (!useRag) {
             console.log(`[${requestId}] RAG rejected (Score below threshold)`);
-            res.json(createFallbackResponse());
+            res.json(await recordFallback(multiHopResult, requestId));
             return;
         }
 
         // Step 5: Extract context from hybrid results
-        const [context, rawSources] = getContextFromHybridResults(hybridResults, threshold);
-        console.log(`[${requestId}] Context Length: ${context.length}`);
+        const [context, rawSources, contextReport] = getContextFromHybridResults(hybridResults, threshold);
+        console.log(`[${requestId}] Context Length: ${context.length} (${contextReport.token_count} tokens, ${contextReport.dropped.length} chunks dropped)`);
 
         if (!context.trim()) {
             console.log(`[${requestId}] Empty context after filtering`);
-            res.json(createFallbackResponse());
+            res.json(await recordFallback(multiHopResult, requestId));
             return;
         }
 
+        // Think mode: plan the answer over the retrieved context first
+        const reasoningStart = Date.now();
+        const reasoning = think ? await tryReason(requestId, message, memory, context, llmOptions) : undefined;
+        const reasoningMs = Date.now() - reasoningStart;
+
         // Generate grounded response (RAG context is authoritative, conversation history is for continuity)
-        const systemPrompt = getRagPrompt(context);
-        const llmResponse = await llmService.callLlm(systemPrompt, message, conversationHistory);
-        console.log(`[${requestId}] LLM Response (RAG): ${llmResponse.substring(0, 100)}...`);
+        const systemPrompt = buildAnswerPrompt(getRagPrompt(context), memory, interactionMode, reasoning);
+        const generationStart = Date.now();
+        const { content: llmResponse, value, model, attempts } = await llmService.callLlmStructured(blocksSchema, systemPrompt, message, conversationHistory, llmOptions);
+        const timings = {
+            condense: condenseMs,
+            ...multiHopResult.timings,
+            ...(reasoning ? { reasoning: reasoningMs } : {}),
+            generation: Date.now() - generationStart,
+        };
+        console.log(`[${requestId}] LLM Response (RAG, ${model}): ${llmResponse.substring(0, 100)}...`);
 
-        const blocks = parseLlmJsonResponse(llmResponse);
         const sources = formatSources(rawSources);
+        const blocks = toResponseBlocks(value.blocks, sources);
 
-        // Append to context window after success
-        appendToContextWindow(convId, 'user', message);
-        appendToContextWindow(convId, 'assistant', llmResponse);
+        const responseId = await feedbackService.recordResponse(
+            multiHopResult.queryId,
+            llmResponse,
+            multiHopResult.hopIds,
+            contextReport.included,
+            highestScore ?? 0
+        );
+
+        // Remember the turn after success
+        await memoryService.recordTurn(convId, message, blocksToText(value.blocks));
 
         const response: ChatResponse = {
             blocks,
             sources,
             mode: 'rag',
             request_id: requestId,
+            response_id: responseId,
+            reasoning: reasoning?.steps,
+            metadata: {
+                context: contextReport,
+                template: toTemplateInfo(multiHopResult),
+                timings,
+                llm: { model, attempts },
+                query_rewrite: queryRewrite,
+                route,
+                interaction_mode: interactionMode,
+                reasoning_llm: reasoning?.llm,
+            },
         };
 
         res.json(response);
 
     } catch (error: any) {
         console.error(`[${requestId}] Chat API error:`, error);
-        res.status(500).json(createErrorResponse(error.message, requestId));
+        // Every model in the fallback chain failed, or none produced usable blocks: an upstream problem, not ours
+        const status = error instanceof LlmUnavailableError ? 503
+            : error instanceof StructuredOutputError ? 502
+            : 500;
+        res.status(status).json(createErrorResponse(error.message, requestId));
     }
 });
 
@@ -119,11 +297,19 @@ router.post('/chat', async (req: Request, res: Response) => {
  * Delivers LLM response progressively for faster perceived latency
  */
 router.post('/chat/stream', async (req: Request, res: Response) => {
-    const { message, conversation_id } = req.body as ChatRequest;
+    const { message, conversation_id, fusion, mode: interactionMode = 'default', model: requestedModel, thinking } = req.body as ChatRequest;
     const requestId = uuidv4().substring(0, 8);
     const convId = conversation_id || requestId;
 
-    console.log(`[${requestId}] [STREAM] Incoming request: ${message.substring(0, 50)}...`);
+    const requestError = validateChatRequest(req.body as ChatRequest);
+    if (requestError) {
+        res.status(400).json({ error: requestError });
+        return;
+    }
+
+    const think = thinking === true || interactionMode === 'think';
+
+    console.log(`[${requestId}] [STREAM] Incoming request (${interactionMode}${think ? ', thinking' : ''}): ${message.substring(0, 50)}...`);
 
     // Set SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
@@ -132,20 +318,59 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
     res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
     res.flushHeaders();
 
+    // Stop retrieval and generation as soon as the client goes away.
+    // (`req` emits 'close' once the body is read, so watch the response instead.)
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    res.on('close', () => {
+        if (!res.writableEnded) abortController.abort();
+    });
+    const llmOptions = { signal, model: requestedModel };
+
+    // Declared up front so a cancelled turn can still be recorded with what it had
+    const queryId = uuidv4();
+    let hopIds: string[] = [];
+    let evidenceIds: string[] = [];
+    let confidence = 0;
+    let fullContent = '';
+    // Kept out here so an interrupted stream can still close the block it was in
+    let sources: Source[] = [];
+    const parser = new BlockStreamParser();
+
     try {
-        const conversationHistory = getContextWindow(convId);
-        const mode = detectMode(message);
-        console.log(`[${requestId}] [STREAM] Detected mode: ${mode}`);
+        const memory = await getContextWindow(convId);
+        const conversationHistory = memory.turns;
+
+        // Rewrite follow-ups into a standalone query before routing and retrieval
+        const condenseStart = Date.now();
+        const condensed = await condenseService.condense(message, conversationHistory, signal);
+        const condenseMs = Date.now() - condenseStart;
+        const queryRewrite = toRewriteInfo(condensed);
+        if (queryRewrite) {
+            res.write(`data: ${JSON.stringify({ type: 'query_rewrite', original: message, query: condensed.query })}\n\n`);
+        }
+        const route = await routeQuery(condensed.query, interactionMode);
+        const { mode } = route;
+        console.log(`[${requestId}] [STREAM] Routed to ${mode} (confidence ${route.confidence})${condensed.rewritten ? ` (standalone: "${condensed.query}")` : ''}`);
 
-        let systemPrompt: string;
-        let sources: any[] = [];
+        let context = '';
         let responseMode = 'general';
+        let contextReport: ContextReport | undefined;
+        let templateInfo: ReusedTemplateInfo | undefined;
+        let timings: Record<string, number> | undefined;
 
         if (mode === 'general') {
-            systemPrompt = getGeneralStreamingPrompt();
+            await feedbackService.logQuery(queryId, condensed.query, message);
         } else {
-            // RAG path - use MULTI-HOP search
-            const multiHopResult = await multiHopService.performMultiHopSearch(message);
+            // RAG path - use MULTI-HOP search, forwarding its progress as it happens
+            const multiHopResult = await multiHopService.performMultiHopSearch(condensed.query, 1, {
+                fusion,
+                originalQuery: message,
+                namespace: conversation_id ? attachmentService.getNamespace(conversation_id) : undefined,
+                signal,
+                queryId,
+                onProgress: (event) => res.write(`data: ${JSON.stringify(event)}\n\n`),
+            });
             const hybridResults = multiHopResult.results;
             const highestScore = hybridService.getHighestScore(hybridResults);
 
@@ -153,6 +378,9 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
             if (multiHopResult.generatedQueries.length > 0) {
                 console.log(`[${requestId}] [STREAM] Generated queries: ${multiHopResult.generatedQueries.join(', ')}`);
             }
+            if (multiHopResult.template) {
+                console.log(`[${requestId}] [STREAM] Replayed template from "${multiHopResult.template.queryText}" (${multiHopResult.template.similarity.toFixed(3)})`);
+            }
             if (hybridResults.length > 0) {
                 console.log(`[${requestId}] [STREAM] Top match scores:`, hybridResults.slice(0, 5).map(r => ({
                     id: r.id,
@@ -161,57 +389,100 @@ router.post('/chat/stream', async (req: Request, res: Response) => {
                     final: r.finalScore.toFixed(3)
                 })));
             }
+            // Same split as /chat: router thresholds gate retrieval, RAG_SIMILARITY_THRESHOLD filters passages
             const threshold = parseFloat(process.env.RAG_SIMILARITY_THRESHOLD || '0.5');
-            console.log(`[${requestId}] [STREAM] RAG threshold: ${threshold}`);
-            const useRag = shouldUseRag(mode, highestScore, threshold);
-
-            if (!useRag) {
-                const fallbackText = "I don't have that information in Cogneoverse knowledge.";
-                res.write(`data: ${JSON.stringify({ type: 'chunk', data: fallbackText })}\n\n`);
-                res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
+            console.log(`[${requestId}] [STREAM] Passage threshold: ${threshold}`);
+            const useRag = shouldUseRag(mode, highestScore, modeRouter.getRetrievalThresholds());
+            const [ragContext, rawSources, report] = useRag ? getContextFromHybridResults(hybridResults, threshold) : ['', [], undefined];
+
+            if (!useRag || !ragContext.trim()) {
+                const responseId = await feedbackService.recordResponse(
+                    multiHopResult.queryId,
+                    FALLBACK_TEXT,
+                    multiHopResult.hopIds,
+                    hybridResults.map(r => r.id),
+                    highestScore ?? 0
+                );
+                const fallbackParser = new BlockStreamParser();
+                res.write(`data: ${JSON.stringify({ type: 'meta', mode: 'fallback', sources: [], request_id: requestId })}\n\n`);
+                writeBlockEvents(res, [...fallbackParser.push(FALLBACK_TEXT), ...fallbackParser.end()], []);
+                res.write(`data: ${JSON.stringify({ type: 'done', response_id: responseId })}\n\n`);
                 res.end();
                 return;
             }
 
-            const [context, rawSources] = getContextFromHybridResults(hybridResults, threshold);
-            if (!context.trim()) {
-                const fallbackText = "I don't have that information in Cogneoverse knowledge.";
-                res.write(`data: ${JSON.stringify({ type: 'chunk', data: fallbackText })}\n\n`);
-                res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
-                res.end();
-                return;
-            }
-
-            systemPrompt = getRagStreamingPrompt(context);
+            context = ragContext;
             sources = formatSources(rawSources);
             responseMode = 'rag';
+            hopIds = multiHopResult.hopIds;
+            evidenceIds = report!.included;
+            confidence = highestScore ?? 0;
+            contextReport = report;
+            templateInfo = toTemplateInfo(multiHopResult);
+            timings = { condense: condenseMs, ...multiHopResult.timings };
+        }
+
+        // Think mode: plan the answer first and show the steps before it streams
+        let reasoning: ReasoningResult | undefined;
+        if (think) {
+            const reasoningStart = Date.now();
+            reasoning = await tryReason(requestId, message, memory, context, llmOptions);
+            timings = { ...timings, reasoning: Date.now() - reasoningStart };
+            if (reasoning) {
+                res.write(`data: ${JSON.stringify({ type: 'reasoning', steps: reasoning.steps, llm: reasoning.llm })}\n\n`);
+            }
         }
+        const systemPrompt = buildAnswerPrompt(responseMode === 'rag' ? getRagPrompt(context) : getGeneralPrompt(), memory, interactionMode, reasoning);
 
         // Send metadata first
-        res.write(`data: ${JSON.stringify({ type: 'meta', mode: responseMode, sources, request_id: requestId })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: 'meta', mode: responseMode, sources, request_id: requestId, metadata: { context: contextReport, template: templateInfo, timings, query_rewrite: queryRewrite, route, interaction_mode: interactionMode } })}\n\n`);
 
-        // Stream the LLM response
-        let fullContent = '';
-        const stream = llmService.callLlmStream(systemPrompt, message, conversationHistory);
+        // Stream the LLM response, parsing its block JSON as it arrives
+        const generationStart = Date.now();
+        const stream = llmService.callLlmStream(systemPrompt, message, conversationHistory, llmOptions);
 
         for await (const chunk of stream) {
             fullContent += chunk;
-            res.write(`data: ${JSON.stringify({ type: 'chunk', data: chunk })}\n\n`);
+            writeBlockEvents(res, parser.push(chunk), sources);
         }
+        signal.throwIfAborted();
+        writeBlockEvents(res, parser.end(), sources);
+
+        const responseId = await feedbackService.recordResponse(queryId, fullContent, hopIds, evidenceIds, confidence);
 
-        // Append to context window
-        appendToContextWindow(convId, 'user', message);
-        appendToContextWindow(convId, 'assistant', fullContent);
+        // Remember the turn
+        await memoryService.recordTurn(convId, message, blocksToText(parser.blocks));
 
-        // Send done signal
-        res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
+        // Send done signal (carries the ID used for feedback, the final blocks and the model that answered)
+        const blocks = toResponseBlocks(parser.blocks, sources);
+        res.write(`data: ${JSON.stringify({ type: 'done', response_id: responseId, blocks, llm: stream.info })}\n\n`);
         res.end();
 
-        console.log(`[${requestId}] [STREAM] Complete (${fullContent.length} chars)`);
+        console.log(`[${requestId}] [STREAM] Complete (${fullContent.length} chars, ${stream.info.model}, ${stream.info.attempts.length} attempts, generation ${Date.now() - generationStart}ms)`);
 
     } catch (error: any) {
+        if (signal.aborted) {
+            // Client disconnected: keep the partial answer, but out of the context window
+            console.log(`[${requestId}] [STREAM] Cancelled by client after ${fullContent.length} chars`);
+            await feedbackService
+                .recordResponse(queryId, fullContent, hopIds, evidenceIds, confidence, 'cancelled')
+                .catch(err => console.error(`[${requestId}] [STREAM] Failed to record cancelled turn:`, err));
+            return;
+        }
+
         console.error(`[${requestId}] [STREAM] Error:`, error);
-        res.write(`data: ${JSON.stringify({ type: 'error', message: error.message })}\n\n`);
+        if (error instanceof LlmStreamInterruptedError) {
+            // Part of the answer already reached the client: flag it as incomplete rather than let it look finished
+            await feedbackService
+                .recordResponse(queryId, fullContent, hopIds, evidenceIds, confidence, 'interrupted')
+                .catch(err => console.error(`[${requestId}] [STREAM] Failed to record interrupted turn:`, err));
+            // Close the open block so its citations are resolved on the client
+            writeBlockEvents(res, parser.end(), sources);
+            res.write(`data: ${JSON.stringify({ type: 'error', message: error.message, partial: true, llm: error.info })}\n\n`);
+        } else {
+            const llm = error instanceof LlmUnavailableError ? error.info : undefined;
+            res.write(`data: ${JSON.stringify({ type: 'error', message: error.message, llm })}\n\n`);
+        }
         res.end();
     }
 });
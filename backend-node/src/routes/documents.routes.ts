@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import ingestionService from '../services/ingestion.service';
+import { requireAdmin } from '../middleware/adminAuth';
+import { IngestDocumentRequest } from '../types/document';
+
+const router = Router();
+
+const FORMATS = ['markdown', 'text', 'html'];
+
+// Ingest (or re-ingest) a document
+router.post('/documents', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const body = req.body as IngestDocumentRequest;
+
+        if (!body || typeof body.content !== 'string' || !body.content.trim()) {
+            res.status(400).json({ error: 'Missing document content' });
+            return;
+        }
+        if (!body.source && !body.title && !body.id) {
+            res.status(400).json({ error: 'Provide a source, title or id for the document' });
+            return;
+        }
+        if (body.format && !FORMATS.includes(body.format)) {
+            res.status(400).json({ error: `Unsupported format "${body.format}" (expected ${FORMATS.join(', ')})` });
+            return;
+        }
+
+        const document = await ingestionService.ingestDocument(body);
+        res.status(201).json({ document });
+
+    } catch (error) {
+        console.error('Error ingesting document:', error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// List ingested documents
+router.get('/documents', async (req: Request, res: Response) => {
+    try {
+        const documents = await ingestionService.listDocuments();
+        res.json({ documents });
+    } catch (error) {
+        console.error('Error listing documents:', error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Delete a document and its chunks
+router.delete('/documents/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const id = String(req.params.id);
+        const deleted = await ingestionService.deleteDocument(id);
+        if (!deleted) {
+            res.status(404).json({ error: `Document ${id} not found` });
+            return;
+        }
+        res.json({ status: 'success', id });
+    } catch (error) {
+        console.error('Error deleting document:', error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+export default router;
@@ -14,7 +14,12 @@ router.post('/feedback', async (req: Request, res: Response) => {
             return;
         }
 
-        await feedbackService.submitFeedback(response_id, feedback, correction);
+        const found = await feedbackService.submitFeedback(response_id, feedback, correction);
+        if (!found) {
+            res.status(404).json({ error: `Response ${response_id} not found` });
+            return;
+        }
+
         res.json({ status: 'success', message: 'Feedback received' });
 
     } catch (error: any) {
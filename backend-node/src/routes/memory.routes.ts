@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { clearContextWindow, getMessages, getSummary } from '../utils/contextWindow';
+
+const router = Router();
+
+// A conversation's stored memory: running summary plus every recorded message
+router.get('/conversations/:id/memory', async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    try {
+        const [summary, messages] = await Promise.all([getSummary(id), getMessages(id)]);
+        res.json({
+            conversation_id: id,
+            summary,
+            messages,
+            token_count: (summary?.tokens || 0) + messages.filter(m => !m.summarized).reduce((sum, m) => sum + m.tokens, 0),
+        });
+    } catch (error) {
+        console.error(`Error fetching memory for ${id}:`, error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+// Forget a conversation: later turns start with no history
+router.delete('/conversations/:id/memory', async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    try {
+        await clearContextWindow(id);
+        res.json({ status: 'success', message: 'Conversation memory cleared' });
+    } catch (error) {
+        console.error(`Error clearing memory for ${id}:`, error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+export default router;
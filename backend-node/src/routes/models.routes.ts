@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import modelCatalogueService from '../services/modelCatalogue.service';
+
+const router = Router();
+
+// Models a chat request may ask for, with display names and capabilities
+router.get('/models', async (req: Request, res: Response) => {
+    try {
+        const models = modelCatalogueService.listModels();
+        res.json({
+            models,
+            default_model: models.find(m => m.default)?.id ?? null,
+        });
+    } catch (error) {
+        console.error('Error listing models:', error);
+        res.status(500).json({ error: (error as Error).message });
+    }
+});
+
+export default router;
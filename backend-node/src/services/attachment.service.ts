@@ -0,0 +1,161 @@
+/**
+ * Conversation Attachments
+ * Files attached in a conversation are ingested like documents, but into a
+ * namespace of their own: retrieval for that conversation searches the shared
+ * index plus its attachments, and no other conversation sees them.
+ */
+
+import path from 'path';
+import ingestionService from './ingestion.service';
+import { all } from '../utils/db';
+import { DocumentFormat, DocumentRecord } from '../types/document';
+
+// Plain-text formats we can extract; everything else (images, PDFs, archives) is rejected
+const TEXT_FORMATS: Record<string, DocumentFormat> = {
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+    '.txt': 'text',
+    '.json': 'text',
+    '.csv': 'text',
+};
+
+const CODE_EXTENSIONS = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.java', '.kt', '.go', '.rs', '.rb', '.php',
+    '.c', '.h', '.cpp', '.hpp', '.cs', '.swift', '.scala', '.sh', '.sql', '.html', '.css', '.scss',
+    '.yaml', '.yml', '.toml', '.xml', '.ini',
+]);
+
+/**
+ * The upload can't be turned into text (unsupported type, not UTF-8, or empty)
+ */
+export class AttachmentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AttachmentError';
+    }
+}
+
+export interface UploadedFile {
+    filename: string;
+    buffer: Buffer;
+}
+
+class AttachmentService {
+    private static instance: AttachmentService;
+
+    private constructor() { }
+
+    public static getInstance(): AttachmentService {
+        if (!AttachmentService.instance) {
+            AttachmentService.instance = new AttachmentService();
+        }
+        return AttachmentService.instance;
+    }
+
+    public getNamespace(conversationId: string): string {
+        return `conversation:${conversationId}`;
+    }
+
+    /**
+     * Extract, chunk and embed a file into the conversation's namespace.
+     * Uploading a file with the same name again replaces it.
+     */
+    public async addAttachment(conversationId: string, file: UploadedFile): Promise<DocumentRecord> {
+        const filename = path.basename(file.filename);
+        const { text, format } = this.extractText(filename, file.buffer);
+
+        const attachment = await ingestionService.ingestDocument({
+            content: text,
+            source: `conversations/${conversationId}/${filename}`,
+            title: filename,
+            format,
+            tags: ['attachment'],
+            namespace: this.getNamespace(conversationId),
+        });
+        console.log(`[Attachments] ${filename} added to ${conversationId} (${attachment.chunk_count} chunks)`);
+        return attachment;
+    }
+
+    public listAttachments(conversationId: string): Promise<DocumentRecord[]> {
+        return ingestionService.listDocuments(this.getNamespace(conversationId));
+    }
+
+    /**
+     * Returns false if the attachment doesn't exist in this conversation
+     */
+    public async deleteAttachment(conversationId: string, attachmentId: string): Promise<boolean> {
+        const attachment = await ingestionService.getDocument(attachmentId);
+        if (!attachment || attachment.namespace !== this.getNamespace(conversationId)) return false;
+        return ingestionService.deleteDocument(attachmentId);
+    }
+
+    /**
+     * Delete every attachment of a conversation; returns how many there were
+     */
+    public async clearAttachments(conversationId: string): Promise<number> {
+        const attachments = await this.listAttachments(conversationId);
+        for (const attachment of attachments) {
+            await ingestionService.deleteDocument(attachment.id);
+        }
+        return attachments.length;
+    }
+
+    /**
+     * Delete the attachments of conversations with no upload or turn since `before`,
+     * including conversations that never completed a turn; returns their ids
+     */
+    public async pruneIdleAttachments(before: number): Promise<string[]> {
+        const prefix = this.getNamespace('');
+        const rows: { namespace: string }[] = await all(
+            `SELECT d.namespace FROM documents d
+             WHERE d.namespace LIKE ? || '%'
+             GROUP BY d.namespace
+             HAVING MAX(d.updated_at) < ?
+                AND NOT EXISTS (
+                    SELECT 1 FROM conversation_messages m
+                    WHERE ? || m.conversation_id = d.namespace AND m.created_at >= ?
+                )`,
+            [prefix, before, prefix, before]
+        );
+
+        const conversationIds = rows.map(row => row.namespace.slice(prefix.length));
+        for (const conversationId of conversationIds) {
+            await this.clearAttachments(conversationId);
+        }
+        return conversationIds;
+    }
+
+    private extractText(filename: string, buffer: Buffer): { text: string; format: DocumentFormat } {
+        const ext = path.extname(filename).toLowerCase();
+        const format = TEXT_FORMATS[ext] || (CODE_EXTENSIONS.has(ext) ? 'text' : null);
+        if (!format) {
+            throw new AttachmentError(`Unsupported file type "${ext || filename}" (text, markdown, JSON, CSV and code files are supported)`);
+        }
+
+        let text: string;
+        try {
+            text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+        } catch {
+            throw new AttachmentError(`${filename} is not UTF-8 text`);
+        }
+        if (text.includes('\0')) {
+            throw new AttachmentError(`${filename} looks like a binary file`);
+        }
+        if (!text.trim()) {
+            throw new AttachmentError(`${filename} is empty`);
+        }
+
+        // Re-indent JSON so that chunks break between values rather than inside one long line
+        if (ext === '.json') {
+            try {
+                text = JSON.stringify(JSON.parse(text), null, 2);
+            } catch {
+                // Not valid JSON: index it as it is
+            }
+        }
+
+        return { text, format };
+    }
+}
+
+export default AttachmentService.getInstance();
@@ -0,0 +1,163 @@
+/**
+ * BM25 Sparse Index
+ * Persistent inverted index in SQLite, built at ingestion time and queried
+ * independently of the dense vector search
+ */
+
+import { all, get, runInTransaction } from '../utils/db';
+import { tokenize } from '../utils/keywords';
+import { Metadata } from '../types/vectorStore';
+
+export interface SparseMatch {
+    id: string;
+    score: number; // Raw BM25 score (unbounded)
+    metadata: Metadata;
+}
+
+export interface SparseDocument {
+    id: string;
+    text: string;
+    metadata?: Metadata;
+    namespace?: string; // Only searchable when the search names this namespace
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * WHERE clause over bm25_docs (aliased `d`) for the shared index plus, when given, one namespace
+ */
+function searchScope(namespace?: string): { sql: string; params: string[] } {
+    return namespace
+        ? { sql: '(d.namespace IS NULL OR d.namespace = ?)', params: [namespace] }
+        : { sql: 'd.namespace IS NULL', params: [] };
+}
+
+class Bm25Service {
+    private static instance: Bm25Service;
+
+    private constructor() { }
+
+    public static getInstance(): Bm25Service {
+        if (!Bm25Service.instance) {
+            Bm25Service.instance = new Bm25Service();
+        }
+        return Bm25Service.instance;
+    }
+
+    /**
+     * Add or replace documents in the index
+     */
+    public async indexDocuments(docs: SparseDocument[]): Promise<void> {
+        const statements: { sql: string; params: unknown[] }[] = [];
+
+        for (const doc of docs) {
+            const termFrequencies = new Map<string, number>();
+            const tokens = tokenize(doc.text);
+            for (const token of tokens) {
+                termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+            }
+
+            statements.push({ sql: 'DELETE FROM bm25_postings WHERE doc_id = ?', params: [doc.id] });
+            statements.push({
+                sql: 'INSERT OR REPLACE INTO bm25_docs (doc_id, length, metadata, namespace) VALUES (?, ?, ?, ?)',
+                params: [doc.id, tokens.length, JSON.stringify(doc.metadata || {}), doc.namespace || null]
+            });
+            for (const [term, tf] of termFrequencies) {
+                statements.push({
+                    sql: 'INSERT INTO bm25_postings (term, doc_id, tf) VALUES (?, ?, ?)',
+                    params: [term, doc.id, tf]
+                });
+            }
+        }
+
+        await runInTransaction(statements);
+        console.log(`[BM25] Indexed ${docs.length} documents`);
+    }
+
+    public async removeDocuments(ids: string[]): Promise<void> {
+        const statements = ids.flatMap(id => [
+            { sql: 'DELETE FROM bm25_postings WHERE doc_id = ?', params: [id] },
+            { sql: 'DELETE FROM bm25_docs WHERE doc_id = ?', params: [id] },
+        ]);
+        await runInTransaction(statements);
+    }
+
+    /**
+     * Collection statistics over what a search can see: the shared index plus, when given,
+     * one namespace. Other conversations' attachments never shift each other's scores.
+     */
+    public async getStats(namespace?: string): Promise<{ documentCount: number; averageLength: number }> {
+        const scope = searchScope(namespace);
+        const row = await get(`SELECT COUNT(*) as n, AVG(length) as avgdl FROM bm25_docs d WHERE ${scope.sql}`, scope.params);
+        return {
+            documentCount: row?.n || 0,
+            averageLength: row?.avgdl || 0,
+        };
+    }
+
+    /**
+     * Score every document containing at least one query term and return the top K.
+     * Covers the shared index plus, when given, one namespace.
+     */
+    public async search(query: string, topK: number = 10, namespace?: string): Promise<SparseMatch[]> {
+        const terms = Array.from(new Set(tokenize(query)));
+        if (terms.length === 0) return [];
+
+        const { documentCount, averageLength } = await this.getStats(namespace);
+        if (documentCount === 0) return [];
+
+        const scope = searchScope(namespace);
+        const placeholders = terms.map(() => '?').join(', ');
+        const dfRows = await all(`
+            SELECT p.term, COUNT(*) as df
+            FROM bm25_postings p
+            JOIN bm25_docs d ON d.doc_id = p.doc_id
+            WHERE p.term IN (${placeholders}) AND ${scope.sql}
+            GROUP BY p.term
+        `, [...terms, ...scope.params]);
+        const idf = new Map<string, number>();
+        for (const row of dfRows) {
+            // Lucene-style idf: stays positive even for terms present in most documents
+            idf.set(row.term, Math.log(1 + (documentCount - row.df + 0.5) / (row.df + 0.5)));
+        }
+
+        const postings = await all(`
+            SELECT p.term, p.doc_id, p.tf, d.length
+            FROM bm25_postings p
+            JOIN bm25_docs d ON d.doc_id = p.doc_id
+            WHERE p.term IN (${placeholders}) AND ${scope.sql}
+        `, [...terms, ...scope.params]);
+
+        const scores = new Map<string, number>();
+        for (const p of postings) {
+            const termIdf = idf.get(p.term) || 0;
+            const norm = p.tf + K1 * (1 - B + B * (p.length / (averageLength || 1)));
+            const termScore = termIdf * (p.tf * (K1 + 1)) / norm;
+            scores.set(p.doc_id, (scores.get(p.doc_id) || 0) + termScore);
+        }
+
+        const top = Array.from(scores.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, topK);
+        if (top.length === 0) return [];
+
+        const ids = top.map(([id]) => id);
+        const metaRows = await all(
+            `SELECT doc_id, metadata FROM bm25_docs WHERE doc_id IN (${ids.map(() => '?').join(', ')})`,
+            ids
+        );
+        const metadataById = new Map<string, Metadata>(
+            metaRows.map(r => [r.doc_id, r.metadata ? JSON.parse(r.metadata) : {}])
+        );
+
+        return top.map(([id, score]) => ({
+            id,
+            score,
+            metadata: metadataById.get(id) || {},
+        }));
+    }
+}
+
+export default Bm25Service.getInstance();
@@ -0,0 +1,82 @@
+/**
+ * Follow-up Condensation
+ * Rewrites the latest message into a standalone query using the conversation
+ * history, so that mode detection and retrieval see "who owns Orion?" rather
+ * than "and who owns it?".
+ */
+
+import crypto from 'crypto';
+import llmService from './llm.service';
+import { LRUCache } from '../utils/cache';
+import { getCondenseQuestionPrompt } from '../utils/prompts';
+import { ConversationTurn } from '../types/llm';
+
+export interface CondensedQuery {
+    query: string;      // What to detect the mode on and search for
+    original: string;   // The user's message as sent
+    rewritten: boolean;
+    cached: boolean;
+}
+
+class CondenseService {
+    private static instance: CondenseService;
+    private cache = new LRUCache<string, string>(parseInt(process.env.CONDENSE_CACHE_SIZE || '500', 10));
+
+    private constructor() { }
+
+    public static getInstance(): CondenseService {
+        if (!CondenseService.instance) {
+            CondenseService.instance = new CondenseService();
+        }
+        return CondenseService.instance;
+    }
+
+    /**
+     * First turns are returned as-is. Failures fall back to the original message.
+     */
+    public async condense(message: string, history: ConversationTurn[], signal?: AbortSignal): Promise<CondensedQuery> {
+        const unchanged = { query: message, original: message, rewritten: false, cached: false };
+        if (history.length === 0 || process.env.CONDENSE_ENABLED === 'false') return unchanged;
+
+        const recent = history.slice(-parseInt(process.env.CONDENSE_HISTORY_MESSAGES || '6', 10));
+        const key = this.cacheKey(message, recent);
+        const hit = this.cache.get(key);
+        if (hit !== undefined) {
+            return { query: hit, original: message, rewritten: hit !== message, cached: true };
+        }
+
+        try {
+            const transcript = recent.map(turn => `${turn.role === 'user' ? 'User' : 'Neo'}: ${turn.content}`).join('\n\n');
+            const { content } = await llmService.callLlm(getCondenseQuestionPrompt(transcript), message, [], { signal });
+            const query = this.clean(content, message);
+
+            this.cache.set(key, query);
+            if (query !== message) console.log(`[Condense] "${message}" -> "${query}"`);
+            return { query, original: message, rewritten: query !== message, cached: false };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error('[Condense] Rewrite failed, using the original message:', error);
+            return unchanged;
+        }
+    }
+
+    private cacheKey(message: string, history: ConversationTurn[]): string {
+        return crypto.createHash('sha256')
+            .update(JSON.stringify([history.map(turn => [turn.role, turn.content]), message]))
+            .digest('hex');
+    }
+
+    /**
+     * First line of the reply without quotes or a "Standalone question:" label;
+     * empty or runaway replies keep the original
+     */
+    private clean(reply: string, original: string): string {
+        const line = (reply.trim().split('\n')[0] || '')
+            .replace(/^(standalone question|question|rewritten)\s*:\s*/i, '')
+            .replace(/^["'“]+|["'”]+$/g, '')
+            .trim();
+        return line && line.length <= original.length * 4 + 200 ? line : original;
+    }
+}
+
+export default CondenseService.getInstance();
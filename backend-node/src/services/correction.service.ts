@@ -0,0 +1,145 @@
+/**
+ * Correction Review Queue
+ * User corrections are stored as pending and only become retrievable context
+ * once an admin approves them. Approved corrections can be retracted later.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { run, get, all } from '../utils/db';
+import embeddingService from './embedding.service';
+import { getVectorStore } from './vectorStore.service';
+import bm25Service from './bm25.service';
+import { CorrectionRecord, CorrectionStatus } from '../types/correction';
+
+/**
+ * Thrown when a review action doesn't apply to the correction's current status
+ */
+export class CorrectionStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CorrectionStateError';
+    }
+}
+
+class CorrectionService {
+    private static instance: CorrectionService;
+
+    private constructor() { }
+
+    public static getInstance(): CorrectionService {
+        if (!CorrectionService.instance) {
+            CorrectionService.instance = new CorrectionService();
+        }
+        return CorrectionService.instance;
+    }
+
+    /**
+     * Queue a user correction for review
+     */
+    public async submitCorrection(responseId: string, text: string): Promise<CorrectionRecord> {
+        const now = Date.now();
+        const id = uuidv4();
+        await run(`
+            INSERT INTO corrections (id, response_id, text, status, created_at, updated_at)
+            VALUES (?, ?, ?, 'pending', ?, ?)
+        `, [id, responseId, text, now, now]);
+
+        console.log(`[Corrections] Queued correction ${id} for response ${responseId}`);
+        return (await this.getCorrection(id))!;
+    }
+
+    public async listCorrections(status?: CorrectionStatus): Promise<CorrectionRecord[]> {
+        return status
+            ? all('SELECT * FROM corrections WHERE status = ? ORDER BY created_at DESC', [status])
+            : all('SELECT * FROM corrections ORDER BY created_at DESC');
+    }
+
+    public async getCorrection(id: string): Promise<CorrectionRecord | null> {
+        const row = await get('SELECT * FROM corrections WHERE id = ?', [id]);
+        return row || null;
+    }
+
+    /**
+     * Edit the text of a pending correction before it is approved
+     */
+    public async editCorrection(id: string, text: string): Promise<CorrectionRecord | null> {
+        const correction = await this.getCorrection(id);
+        if (!correction) return null;
+        this.assertStatus(correction, ['pending'], 'edited');
+
+        await run('UPDATE corrections SET text = ?, updated_at = ? WHERE id = ?', [text, Date.now(), id]);
+        return this.getCorrection(id);
+    }
+
+    /**
+     * Approve a pending correction: embed it and index it as authoritative context
+     */
+    public async approveCorrection(id: string, note?: string): Promise<CorrectionRecord | null> {
+        const correction = await this.getCorrection(id);
+        if (!correction) return null;
+        this.assertStatus(correction, ['pending'], 'approved');
+
+        const vectorId = `correction-${correction.id}`;
+        const metadata = {
+            text: correction.text,
+            type: 'correction',
+            timestamp: Date.now(),
+            source: 'user_feedback',
+            correction_id: correction.id,
+            response_id: correction.response_id,
+        };
+
+        const embedding = await embeddingService.generateEmbedding(correction.text);
+        await getVectorStore().upsert([{ id: vectorId, values: embedding, metadata }]);
+        await bm25Service.indexDocuments([{ id: vectorId, text: correction.text, metadata }]);
+
+        await this.setStatus(id, 'approved', vectorId, note);
+        console.log(`[Corrections] Approved ${id}, indexed as ${vectorId}`);
+        return this.getCorrection(id);
+    }
+
+    public async rejectCorrection(id: string, note?: string): Promise<CorrectionRecord | null> {
+        const correction = await this.getCorrection(id);
+        if (!correction) return null;
+        this.assertStatus(correction, ['pending'], 'rejected');
+
+        await this.setStatus(id, 'rejected', null, note);
+        console.log(`[Corrections] Rejected ${id}`);
+        return this.getCorrection(id);
+    }
+
+    /**
+     * Withdraw an approved correction and delete its vector
+     */
+    public async retractCorrection(id: string, note?: string): Promise<CorrectionRecord | null> {
+        const correction = await this.getCorrection(id);
+        if (!correction) return null;
+        this.assertStatus(correction, ['approved'], 'retracted');
+
+        if (correction.vector_id) {
+            await getVectorStore().delete([correction.vector_id]);
+            await bm25Service.removeDocuments([correction.vector_id]);
+        }
+
+        await this.setStatus(id, 'retracted', null, note);
+        console.log(`[Corrections] Retracted ${id}`);
+        return this.getCorrection(id);
+    }
+
+    private assertStatus(correction: CorrectionRecord, allowed: CorrectionStatus[], action: string): void {
+        if (!allowed.includes(correction.status)) {
+            throw new CorrectionStateError(`Correction ${correction.id} is ${correction.status} and cannot be ${action}`);
+        }
+    }
+
+    private async setStatus(id: string, status: CorrectionStatus, vectorId: string | null, note?: string): Promise<void> {
+        const now = Date.now();
+        await run(`
+            UPDATE corrections
+            SET status = ?, vector_id = ?, review_note = COALESCE(?, review_note), reviewed_at = ?, updated_at = ?
+            WHERE id = ?
+        `, [status, vectorId, note || null, now, now, id]);
+    }
+}
+
+export default CorrectionService.getInstance();
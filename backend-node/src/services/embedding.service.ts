@@ -1,4 +1,4 @@
-import { pipeline, FeatureExtractionPipeline } from '@xenova/transformers';
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
 import { LRUCache } from '../utils/cache';
 
 class EmbeddingService {
@@ -23,7 +23,11 @@ class EmbeddingService {
     public async init(): Promise<void> {
         if (!this.pipe) {
             console.log(`Loading embedding model ${this.modelName}...`);
-            this.pipe = await pipeline('feature-extraction', this.modelName);
+            // Imported on first use: the library's native image dependencies aren't needed until a model loads
+            const { pipeline } = await import('@xenova/transformers');
+            this.pipe = await pipeline('feature-extraction', this.modelName, {
+                local_files_only: process.env.EMBEDDING_LOCAL_FILES_ONLY === 'true',
+            });
             console.log('Embedding model loaded.');
         }
     }
@@ -60,6 +64,30 @@ class EmbeddingService {
         return embedding;
     }
 
+    /**
+     * Embed many texts, running the model on batches of `batchSize` inputs.
+     * Bypasses the LRU cache: used for ingestion where inputs are rarely repeated.
+     */
+    public async generateEmbeddings(texts: string[], batchSize: number = 16): Promise<number[][]> {
+        if (!this.pipe) {
+            await this.init();
+        }
+
+        if (!this.pipe) {
+            throw new Error("Failed to load embedding pipeline");
+        }
+
+        const embeddings: number[][] = [];
+        for (let i = 0; i < texts.length; i += batchSize) {
+            const batch = texts.slice(i, i + batchSize);
+            const output = await this.pipe(batch, { pooling: 'mean', normalize: true });
+            embeddings.push(...(output.tolist() as number[][]));
+            console.log(`[Embedding] Batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(texts.length / batchSize)} embedded`);
+        }
+
+        return embeddings;
+    }
+
     public getCacheStats(): { hits: number; misses: number; size: number } {
         return {
             hits: this.cacheHits,
@@ -1,13 +1,38 @@
 import { v4 as uuidv4 } from 'uuid';
 import { run, get, all } from '../utils/db';
-import embeddingService from './embedding.service';
-import pineconeService from './pinecone.service';
+import correctionService from './correction.service';
+import { cosineSimilarity, encodeVector, decodeVector } from '../utils/vectorMath';
+import { enqueueWrites, QueuedStatement } from '../utils/writeQueue';
+
+export type ResponseStatus = 'complete' | 'cancelled' | 'interrupted';
 
 export interface DocFeedback {
     documentId: string;
     score: number;
 }
 
+export interface HopLog {
+    hopId: string;
+    hopOrder: number;
+    subQuery: string;
+    reasoning: string;
+    results: { id: string; semanticScore: number; keywordScore: number }[];
+}
+
+export interface TemplateHop {
+    hop_order: number;
+    sub_query: string;
+    reasoning: string;
+}
+
+export interface HopTemplate {
+    queryId: string;    // Past query whose decomposition is replayed
+    queryText: string;
+    responseId: string; // Its best positively rated response
+    similarity: number;
+    hops: TemplateHop[];
+}
+
 class FeedbackService {
     private static instance: FeedbackService;
 
@@ -22,14 +47,33 @@ class FeedbackService {
 
     // --- Logging Methods ---
 
-    public async logQuery(queryId: string, text: string): Promise<void> {
-        await run('INSERT INTO queries (id, text, timestamp) VALUES (?, ?, ?)', [
+    /**
+     * `originalText` is the user's message when `text` is its standalone rewrite
+     */
+    public async logQuery(queryId: string, text: string, originalText?: string): Promise<void> {
+        await run('INSERT INTO queries (id, text, original_text, timestamp) VALUES (?, ?, ?, ?)', [
             queryId,
             text,
+            originalText && originalText !== text ? originalText : null,
             Date.now()
         ]);
     }
 
+    public async logQueryEmbedding(queryId: string, embedding: number[]): Promise<void> {
+        await run('INSERT OR REPLACE INTO query_embeddings (query_id, vector) VALUES (?, ?)', [
+            queryId,
+            encodeVector(embedding)
+        ]);
+    }
+
+    public async logTemplateReplay(queryId: string, templateQueryId: string, similarity: number): Promise<void> {
+        await run('INSERT INTO template_replays (query_id, template_query_id, similarity) VALUES (?, ?, ?)', [
+            queryId,
+            templateQueryId,
+            similarity
+        ]);
+    }
+
     public async logHop(hopId: string, queryId: string, hopOrder: number, subQuery: string, reasoning: string = ''): Promise<void> {
         await run('INSERT INTO hops (id, query_id, hop_order, sub_query, reasoning, status) VALUES (?, ?, ?, ?, ?, ?)', [
             hopId,
@@ -52,12 +96,34 @@ class FeedbackService {
         ]);
     }
 
-    public async logResponse(responseId: string, queryId: string, content: string): Promise<void> {
-        await run('INSERT INTO responses (id, query_id, content, timestamp) VALUES (?, ?, ?, ?)', [
+    /**
+     * Log a run's hops and their ranked documents off the response path,
+     * as one transaction through the write queue
+     */
+    public queueHopLogs(queryId: string, hops: HopLog[]): void {
+        const statements: QueuedStatement[] = [];
+
+        for (const hop of hops) {
+            statements.push({
+                sql: 'INSERT INTO hops (id, query_id, hop_order, sub_query, reasoning, status) VALUES (?, ?, ?, ?, ?, ?)',
+                params: [hop.hopId, queryId, hop.hopOrder, hop.subQuery, hop.reasoning, 'pending']
+            });
+            hop.results.forEach((res, i) => statements.push({
+                sql: 'INSERT INTO hop_documents (id, hop_id, document_id, dense_score, sparse_score, rank_position) VALUES (?, ?, ?, ?, ?, ?)',
+                params: [uuidv4(), hop.hopId, res.id, res.semanticScore, res.keywordScore, i + 1]
+            }));
+        }
+
+        enqueueWrites(statements);
+    }
+
+    public async logResponse(responseId: string, queryId: string, content: string, status: ResponseStatus = 'complete'): Promise<void> {
+        await run('INSERT INTO responses (id, query_id, content, timestamp, status) VALUES (?, ?, ?, ?, ?)', [
             responseId,
             queryId,
             content,
-            Date.now()
+            Date.now(),
+            status
         ]);
     }
 
@@ -71,6 +137,29 @@ class FeedbackService {
         ]);
     }
 
+    /**
+     * Persist an assistant turn together with its evidence chain.
+     * Returns the generated response ID that clients use for feedback.
+     */
+    public async recordResponse(
+        queryId: string,
+        content: string,
+        hopIds: string[] = [],
+        documentIds: string[] = [],
+        confidence: number = 0,
+        status: ResponseStatus = 'complete'
+    ): Promise<string> {
+        const responseId = uuidv4();
+        await this.logResponse(responseId, queryId, content, status);
+        await this.logEvidenceChain(responseId, hopIds, documentIds, confidence);
+        return responseId;
+    }
+
+    public async responseExists(responseId: string): Promise<boolean> {
+        const row = await get('SELECT id FROM responses WHERE id = ?', [responseId]);
+        return !!row;
+    }
+
     // --- Learning & Feedback ---
 
     /**
@@ -107,9 +196,14 @@ class FeedbackService {
     }
 
     /**
-     * Submit user feedback for a response
+     * Submit user feedback for a response.
+     * Returns false when the response ID is unknown.
      */
-    public async submitFeedback(responseId: string, feedback: number, correction?: string): Promise<void> {
+    public async submitFeedback(responseId: string, feedback: number, correction?: string): Promise<boolean> {
+        if (!(await this.responseExists(responseId))) {
+            return false;
+        }
+
         await run('UPDATE responses SET user_feedback = ?, user_correction = ? WHERE id = ?', [
             feedback,
             correction || null,
@@ -121,32 +215,15 @@ class FeedbackService {
             await this.handleNegativeFeedback(responseId);
         }
 
-        // If correction provided, inject into RAG memory
+        // Credit (or demote) the template this answer replayed, if any
+        await this.rateReplayedTemplate(responseId, feedback);
+
+        // If correction provided, queue it for admin review (not indexed until approved)
         if (correction && correction.trim().length > 5) {
-            await this.injectCorrection(correction);
+            await correctionService.submitCorrection(responseId, correction.trim());
         }
-    }
 
-    private async injectCorrection(text: string): Promise<void> {
-        try {
-            console.log(`[Feedback] Injecting correction: "${text}"`);
-            const embedding = await embeddingService.generateEmbedding(text);
-            const id = `correction-${uuidv4()}`;
-
-            await pineconeService.upsert([{
-                id,
-                values: embedding,
-                metadata: {
-                    text,
-                    type: 'correction',
-                    timestamp: Date.now(),
-                    source: 'user_feedback'
-                }
-            }]);
-            console.log(`[Feedback] Correction upserted to Pinecone: ${id}`);
-        } catch (e) {
-            console.error("[Feedback] Failed to inject correction:", e);
-        }
+        return true;
     }
 
     private async handleNegativeFeedback(responseId: string) {
@@ -179,30 +256,74 @@ class FeedbackService {
     }
 
     /**
-     * One-Shot Learning: Retrieve a successful hop breakdown for a similar query.
+     * One-Shot Learning: find the past positively rated query most similar to this one
+     * (cosine over stored query embeddings, above TEMPLATE_SIMILARITY_THRESHOLD) and
+     * return the hop breakdown of that single run. Demoted templates are skipped.
      */
-    public async getSuccessfulTemplate(queryText: string): Promise<any[]> {
-        const row = await get(`
-            SELECT h.hop_order, h.sub_query, h.reasoning
+    public async getSuccessfulTemplate(queryEmbedding: number[]): Promise<HopTemplate | null> {
+        const threshold = parseFloat(process.env.TEMPLATE_SIMILARITY_THRESHOLD || '0.9');
+
+        // Best response first, so the first row per query is the one the template is scoped to
+        const candidates = await all(`
+            SELECT q.id AS query_id, q.text, qe.vector, r.id AS response_id
             FROM queries q
-            JOIN responses r ON r.query_id = q.id
-            JOIN hops h ON h.query_id = q.id
-            WHERE q.text = ? AND r.user_feedback = 1
-            ORDER BY h.hop_order ASC
-        `, [queryText]);
-
-        if (row) {
-            const rows = await all(`
-                SELECT h.hop_order, h.sub_query, h.reasoning
-                FROM queries q
-                JOIN responses r ON r.query_id = q.id
-                JOIN hops h ON h.query_id = q.id
-                WHERE q.text = ? AND r.user_feedback = 1
-                ORDER BY h.hop_order ASC
-             `, [queryText]);
-            return rows;
+            JOIN query_embeddings qe ON qe.query_id = q.id
+            JOIN responses r ON r.query_id = q.id AND r.user_feedback = 1
+            LEFT JOIN evidence_chains ec ON ec.response_id = r.id
+            LEFT JOIN hop_templates t ON t.query_id = q.id
+            WHERE COALESCE(t.status, 'active') = 'active'
+              AND NOT EXISTS (SELECT 1 FROM responses rn WHERE rn.query_id = q.id AND rn.user_feedback = -1)
+            ORDER BY ec.confidence_score DESC, r.timestamp DESC
+        `);
+
+        let best: Omit<HopTemplate, 'hops'> | null = null;
+        const seenQueries = new Set<string>();
+
+        for (const row of candidates) {
+            if (seenQueries.has(row.query_id)) continue;
+            seenQueries.add(row.query_id);
+
+            const similarity = cosineSimilarity(queryEmbedding, decodeVector(row.vector));
+            if (similarity >= threshold && (!best || similarity > best.similarity)) {
+                best = { queryId: row.query_id, queryText: row.text, responseId: row.response_id, similarity };
+            }
+        }
+
+        if (!best) return null;
+
+        const hops: TemplateHop[] = await all(
+            'SELECT hop_order, sub_query, reasoning FROM hops WHERE query_id = ? ORDER BY hop_order ASC',
+            [best.queryId]
+        );
+        return hops.length > 0 ? { ...best, hops } : null;
+    }
+
+    /**
+     * Feedback on a replayed answer counts against the template it reused.
+     * A template is demoted after TEMPLATE_MAX_NEGATIVES negative ratings.
+     */
+    private async rateReplayedTemplate(responseId: string, feedback: number): Promise<void> {
+        const replay = await get(`
+            SELECT tr.template_query_id
+            FROM responses r
+            JOIN template_replays tr ON tr.query_id = r.query_id
+            WHERE r.id = ?
+        `, [responseId]);
+        if (!replay || (feedback !== 1 && feedback !== -1)) return;
+
+        const maxNegatives = parseInt(process.env.TEMPLATE_MAX_NEGATIVES || '1', 10);
+        const column = feedback === 1 ? 'positive_count' : 'negative_count';
+
+        await run(`
+            INSERT INTO hop_templates (query_id, ${column}, updated_at) VALUES (?, 1, ?)
+            ON CONFLICT(query_id) DO UPDATE SET ${column} = ${column} + 1, updated_at = excluded.updated_at
+        `, [replay.template_query_id, Date.now()]);
+
+        const template = await get('SELECT status, negative_count FROM hop_templates WHERE query_id = ?', [replay.template_query_id]);
+        if (template && template.status === 'active' && template.negative_count >= maxNegatives) {
+            await run("UPDATE hop_templates SET status = 'demoted', updated_at = ? WHERE query_id = ?", [Date.now(), replay.template_query_id]);
+            console.log(`[Feedback] Demoted hop template ${replay.template_query_id} after ${template.negative_count} negative replay(s).`);
         }
-        return [];
     }
 }
 
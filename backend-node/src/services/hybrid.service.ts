@@ -1,11 +1,18 @@
 /**
  * Hybrid Search Service
- * Combines semantic vector search with keyword-based retrieval for improved RAG accuracy
+ * Combines semantic vector search with BM25 keyword retrieval for improved RAG accuracy
  */
 
-import pineconeService, { Match } from './pinecone.service';
+import { Match } from '../types/vectorStore';
+import { getVectorStore } from './vectorStore.service';
+import embeddingService from './embedding.service';
+import bm25Service, { SparseMatch } from './bm25.service';
 import { extractKeywords, calculateKeywordScore } from '../utils/keywords';
+import { cosineSimilarity } from '../utils/vectorMath';
+import { fuseCandidates, resolveFusionOptions } from '../utils/fusion';
+import { FusionRequest, SignalRanks } from '../types/fusion';
 import feedbackService from './feedback.service';
+import rerankService from './rerank.service';
 
 export interface HybridSearchResult {
     id: string;
@@ -15,14 +22,12 @@ export interface HybridSearchResult {
     finalScore: number;
     metadata: Record<string, any>;
     appearsInBoth: boolean;
+    ranks: SignalRanks;
+    rerankScore?: number; // Cross-encoder relevance (0..1), when reranking ran
+    embedding?: number[]; // Stored chunk vector, used for MMR during context assembly
 }
 
-// Default weights
-const DEFAULT_WEIGHTS = {
-    alpha: 0.6, // Semantic
-    beta: 0.3,  // Keyword
-    gamma: 0.1  // Feedback
-};
+const EMPTY_RANKS: SignalRanks = { semantic: null, keyword: null, feedback: null };
 
 class HybridSearchService {
     private static instance: HybridSearchService;
@@ -37,24 +42,39 @@ class HybridSearchService {
     }
 
     /**
-     * Perform hybrid search combining semantic, keyword, and feedback signals
+     * Perform hybrid search combining semantic, keyword, and feedback signals.
+     * The fusion strategy and its parameters default to env config and can be overridden per call.
+     * Searches the shared index, plus `namespace` (a conversation's attachments) when given.
+     * Throws as soon as `signal` is aborted between stages.
      */
     public async performHybridSearch(
         query: string,
         topK: number = 10,
-        weights: { alpha: number; beta: number; gamma: number } = DEFAULT_WEIGHTS
+        fusion: FusionRequest = {},
+        signal?: AbortSignal,
+        namespace?: string
     ): Promise<HybridSearchResult[]> {
-        console.log(`[Hybrid] Starting search for: "${query.substring(0, 50)}..."`);
+        const fusionOptions = resolveFusionOptions(fusion);
+        console.log(`[Hybrid] Starting search for: "${query.substring(0, 50)}..." (fusion: ${fusionOptions.strategy})`);
 
         // Extract keywords
         const keywords = extractKeywords(query);
+        const queryEmbedding = await this.embedQuery(query);
+        signal?.throwIfAborted();
 
-        // Perform semantic search
+        // Dense and sparse retrieval run independently
         // Fetch more for re-ranking
-        const [semanticMatches, highestSemanticScore] = await pineconeService.queryPinecone(query, topK * 3);
+        const [semanticMatches, sparseMatches] = await Promise.all([
+            this.semanticSearch(queryEmbedding, topK * 3, namespace),
+            this.sparseSearch(query, topK * 3, namespace),
+        ]);
 
-        // Fuse Semantic + Keyword first to get candidates
-        let candidates = this.initialFusion(semanticMatches, keywords);
+        // Fuse Semantic + Keyword first to get candidates.
+        // Without BM25 hits (e.g. an index populated out of band) fall back to substring scoring.
+        signal?.throwIfAborted();
+        const candidates = sparseMatches.length > 0
+            ? await this.fuseWithSparse(semanticMatches, sparseMatches, queryEmbedding)
+            : this.initialFusion(semanticMatches, keywords);
 
         // Fetch Feedback Scores for these candidates
         // Done in parallel for speed
@@ -69,30 +89,134 @@ class HybridSearchService {
             }));
         }
 
-        // Calculate Final Score
-        candidates.forEach(c => {
-            // Normalized scores assumed to be 0..1
-            // We can allow a small boost for 'appearsInBoth'
-            const boost = c.appearsInBoth ? 0.05 : 0;
-
-            c.finalScore = (weights.alpha * c.semanticScore) +
-                (weights.beta * c.keywordScore) +
-                (weights.gamma * c.feedbackScore) +
-                boost;
-        });
+        // Calculate per-signal ranks and Final Score
+        fuseCandidates(candidates, fusionOptions);
 
         // Sort by final score
         candidates.sort((a, b) => b.finalScore - a.finalScore);
 
+        // Optional cross-encoder pass over the best fused candidates (reorders them itself)
+        signal?.throwIfAborted();
+        if (rerankService.isEnabled()) {
+            await rerankService.rerank(query, candidates);
+        }
+
         // Logging top result for debug
         if (candidates.length > 0) {
             const top = candidates[0];
-            console.log(`[Hybrid] Top result: ${top.id} | Final: ${top.finalScore.toFixed(3)} (Sem: ${top.semanticScore.toFixed(2)}, Key: ${top.keywordScore.toFixed(2)}, Feed: ${top.feedbackScore.toFixed(2)})`);
+            console.log(`[Hybrid] Top result: ${top.id} | Final: ${top.finalScore.toFixed(3)} (Sem: ${top.semanticScore.toFixed(2)} #${top.ranks.semantic ?? '-'}, Key: ${top.keywordScore.toFixed(2)} #${top.ranks.keyword ?? '-'}, Feed: ${top.feedbackScore.toFixed(2)})`);
         }
 
         return candidates.slice(0, topK);
     }
 
+    private async embedQuery(query: string): Promise<number[] | null> {
+        try {
+            return await embeddingService.generateEmbedding(query);
+        } catch (err) {
+            console.error('[Hybrid] Query embedding failed:', err);
+            return null;
+        }
+    }
+
+    /**
+     * Search the shared index and, when given, the conversation's namespace, merged by score
+     */
+    private async semanticSearch(queryEmbedding: number[] | null, topK: number, namespace?: string): Promise<Match[]> {
+        if (!queryEmbedding) return [];
+        try {
+            const store = getVectorStore();
+            const namespaces = namespace ? [undefined, namespace] : [undefined];
+            const matches = await Promise.all(namespaces.map(ns =>
+                store.query(queryEmbedding, { topK, includeValues: true, namespace: ns })
+            ));
+            return matches.flat().sort((a, b) => b.score - a.score).slice(0, topK);
+        } catch (err) {
+            console.error('[Hybrid] Semantic search failed:', err);
+            return [];
+        }
+    }
+
+    private async sparseSearch(query: string, topK: number, namespace?: string): Promise<SparseMatch[]> {
+        try {
+            return await bm25Service.search(query, topK, namespace);
+        } catch (err) {
+            console.error('[Hybrid] BM25 search failed:', err);
+            return [];
+        }
+    }
+
+    /**
+     * Union of dense and BM25 candidates. Keyword scores are BM25 scores normalized
+     * by the best sparse hit; sparse-only documents get their semantic score from
+     * their stored embedding.
+     */
+    private async fuseWithSparse(
+        semanticMatches: Match[],
+        sparseMatches: SparseMatch[],
+        queryEmbedding: number[] | null
+    ): Promise<HybridSearchResult[]> {
+        const maxSparse = Math.max(...sparseMatches.map(m => m.score)) || 1;
+        const sparseById = new Map(sparseMatches.map(m => [m.id, m]));
+        const results: HybridSearchResult[] = [];
+        const seenIds = new Set<string>();
+
+        for (const match of semanticMatches) {
+            if (seenIds.has(match.id)) continue;
+            seenIds.add(match.id);
+
+            const sparse = sparseById.get(match.id);
+            results.push({
+                id: match.id,
+                semanticScore: match.score,
+                keywordScore: sparse ? sparse.score / maxSparse : 0,
+                feedbackScore: 0, // Placeholder
+                finalScore: 0,    // Placeholder
+                metadata: match.metadata || sparse?.metadata || {},
+                appearsInBoth: !!sparse,
+                ranks: { ...EMPTY_RANKS },
+                embedding: match.values
+            });
+        }
+
+        const sparseOnly = sparseMatches.filter(m => !seenIds.has(m.id));
+        if (sparseOnly.length === 0) return results;
+
+        // Vectors are fetched per namespace; BM25 keeps each chunk's namespace in its metadata
+        const idsByNamespace = new Map<string | undefined, string[]>();
+        for (const match of sparseOnly) {
+            const ns = typeof match.metadata.namespace === 'string' ? match.metadata.namespace : undefined;
+            idsByNamespace.set(ns, [...(idsByNamespace.get(ns) || []), match.id]);
+        }
+
+        const storedValues = new Map<string, number[]>();
+        try {
+            const store = getVectorStore();
+            const fetched = await Promise.all(Array.from(idsByNamespace, ([ns, ids]) => store.fetch(ids, ns)));
+            fetched.flat().forEach(r => storedValues.set(r.id, r.values));
+        } catch (err) {
+            console.error('[Hybrid] Failed to fetch vectors for sparse-only hits:', err);
+        }
+
+        for (const match of sparseOnly) {
+            const values = storedValues.get(match.id);
+            results.push({
+                id: match.id,
+                semanticScore: queryEmbedding && values ? cosineSimilarity(queryEmbedding, values) : 0,
+                keywordScore: match.score / maxSparse,
+                feedbackScore: 0,
+                finalScore: 0,
+                metadata: match.metadata,
+                appearsInBoth: false,
+                ranks: { ...EMPTY_RANKS },
+                embedding: values
+            });
+        }
+
+        console.log(`[Hybrid] BM25 recalled ${sparseOnly.length} documents missed by dense search`);
+        return results;
+    }
+
     /**
      * Initial fusion of Semantic + Keyword to build candidate objects
      */
@@ -125,7 +249,9 @@ class HybridSearchService {
                 feedbackScore: 0, // Placeholder
                 finalScore: 0,    // Placeholder
                 metadata,
-                appearsInBoth
+                appearsInBoth,
+                ranks: { ...EMPTY_RANKS },
+                embedding: match.values
             });
         }
 
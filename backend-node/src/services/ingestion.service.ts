@@ -0,0 +1,180 @@
+/**
+ * Ingestion Service
+ * Chunks documents, embeds them in batches and upserts them into the vector index
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { run, get, all } from '../utils/db';
+import { chunkDocument, extractTitle, ChunkOptions } from '../utils/chunker';
+import { DocumentFormat, DocumentRecord, IngestDocumentRequest } from '../types/document';
+import embeddingService from './embedding.service';
+import { getVectorStore } from './vectorStore.service';
+import bm25Service from './bm25.service';
+
+const UPSERT_BATCH_SIZE = 100;
+
+class IngestionService {
+    private static instance: IngestionService;
+
+    private constructor() { }
+
+    public static getInstance(): IngestionService {
+        if (!IngestionService.instance) {
+            IngestionService.instance = new IngestionService();
+        }
+        return IngestionService.instance;
+    }
+
+    /**
+     * Ingest (or re-ingest) a document. Chunk IDs are derived from the document ID,
+     * so ingesting the same source again overwrites its chunks and removes stale ones.
+     */
+    public async ingestDocument(input: IngestDocumentRequest): Promise<DocumentRecord> {
+        const source = input.source || input.title || input.id;
+        if (!source) {
+            throw new Error('Document needs a source, title or id');
+        }
+
+        const format = input.format || this.detectFormat(source);
+        const id = input.id || this.getDocumentId(source);
+        const title = input.title || extractTitle(input.content, format) || path.basename(source);
+        const tags = input.tags || [];
+        const namespace = input.namespace || null;
+
+        const chunks = chunkDocument(input.content, format, this.getChunkOptions());
+        if (chunks.length === 0) {
+            throw new Error('Document has no text content');
+        }
+
+        console.log(`[Ingest] ${id} (${format}): ${chunks.length} chunks from "${source}"`);
+
+        const batchSize = parseInt(process.env.INGEST_EMBED_BATCH_SIZE || '16', 10);
+        const embeddings = await embeddingService.generateEmbeddings(chunks.map(c => c.text), batchSize);
+
+        const vectors = chunks.map((chunk, i) => ({
+            id: this.getChunkId(id, chunk.index),
+            values: embeddings[i],
+            metadata: {
+                text: chunk.text,
+                title,
+                source,
+                tags,
+                type: 'document',
+                document_id: id,
+                chunk_index: chunk.index,
+                ...(chunk.section ? { section: chunk.section } : {}),
+                ...(namespace ? { namespace } : {}),
+            },
+        }));
+
+        const store = getVectorStore();
+        for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+            await store.upsert(vectors.slice(i, i + UPSERT_BATCH_SIZE), namespace || undefined);
+        }
+
+        await bm25Service.indexDocuments(vectors.map(v => ({
+            id: v.id,
+            text: `${title}\n${v.metadata.text}`,
+            metadata: v.metadata,
+            namespace: namespace || undefined,
+        })));
+
+        // Remove chunks left over from a previous, longer version of this document
+        const existing = await this.getDocument(id);
+        if (existing && existing.chunk_count > chunks.length) {
+            const staleIds: string[] = [];
+            for (let i = chunks.length; i < existing.chunk_count; i++) {
+                staleIds.push(this.getChunkId(id, i));
+            }
+            await store.delete(staleIds, namespace || undefined);
+            await bm25Service.removeDocuments(staleIds);
+            console.log(`[Ingest] ${id}: removed ${staleIds.length} stale chunks`);
+        }
+
+        const now = Date.now();
+        await run(`
+            INSERT INTO documents (id, title, source, format, tags, namespace, chunk_count, char_count, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+                title = excluded.title,
+                source = excluded.source,
+                format = excluded.format,
+                tags = excluded.tags,
+                namespace = excluded.namespace,
+                chunk_count = excluded.chunk_count,
+                char_count = excluded.char_count,
+                updated_at = excluded.updated_at
+        `, [id, title, source, format, JSON.stringify(tags), namespace, chunks.length, input.content.length, now, now]);
+
+        return (await this.getDocument(id))!;
+    }
+
+    /**
+     * Documents of the shared knowledge base, or of one namespace
+     */
+    public async listDocuments(namespace?: string): Promise<DocumentRecord[]> {
+        const rows = namespace
+            ? await all('SELECT * FROM documents WHERE namespace = ? ORDER BY updated_at DESC', [namespace])
+            : await all('SELECT * FROM documents WHERE namespace IS NULL ORDER BY updated_at DESC');
+        return rows.map(row => this.toRecord(row));
+    }
+
+    public async getDocument(id: string): Promise<DocumentRecord | null> {
+        const row = await get('SELECT * FROM documents WHERE id = ?', [id]);
+        return row ? this.toRecord(row) : null;
+    }
+
+    /**
+     * Delete a document and all of its chunks. Returns false if the document is unknown.
+     */
+    public async deleteDocument(id: string): Promise<boolean> {
+        const existing = await this.getDocument(id);
+        if (!existing) return false;
+
+        const chunkIds: string[] = [];
+        for (let i = 0; i < existing.chunk_count; i++) {
+            chunkIds.push(this.getChunkId(id, i));
+        }
+        for (let i = 0; i < chunkIds.length; i += UPSERT_BATCH_SIZE) {
+            await getVectorStore().delete(chunkIds.slice(i, i + UPSERT_BATCH_SIZE), existing.namespace || undefined);
+        }
+        await bm25Service.removeDocuments(chunkIds);
+
+        await run('DELETE FROM documents WHERE id = ?', [id]);
+        console.log(`[Ingest] Deleted ${id} (${chunkIds.length} chunks)`);
+        return true;
+    }
+
+    public detectFormat(source: string): DocumentFormat {
+        const ext = path.extname(source).toLowerCase();
+        if (ext === '.md' || ext === '.markdown') return 'markdown';
+        if (ext === '.html' || ext === '.htm') return 'html';
+        return 'text';
+    }
+
+    private getDocumentId(source: string): string {
+        const hash = crypto.createHash('sha1').update(source).digest('hex').substring(0, 16);
+        return `doc-${hash}`;
+    }
+
+    private getChunkId(documentId: string, index: number): string {
+        return `${documentId}#chunk-${index}`;
+    }
+
+    private getChunkOptions(): ChunkOptions {
+        return {
+            chunkSize: parseInt(process.env.CHUNK_SIZE || '1200', 10),
+            overlap: parseInt(process.env.CHUNK_OVERLAP || '200', 10),
+        };
+    }
+
+    private toRecord(row: Omit<DocumentRecord, 'tags'> & { tags: string | null }): DocumentRecord {
+        return {
+            ...row,
+            tags: row.tags ? JSON.parse(row.tags) : [],
+        };
+    }
+}
+
+export default IngestionService.getInstance();
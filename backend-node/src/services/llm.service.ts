@@ -1,9 +1,155 @@
-import OpenAI from 'openai';
+/**
+ * LLM Service
+ * Entry point for chat model calls; delegates to the provider picked by
+ * LLM_PROVIDER ('openai' for any OpenAI-compatible endpoint, or 'mock').
+ * Each call gets a timeout, retries with backoff on retryable errors, and falls
+ * back through LLM_FALLBACK_MODELS when the primary model keeps failing.
+ */
+
+import { APIConnectionError } from 'openai';
+import { ConversationTurn, LlmAttempt, LlmCallInfo, LlmCallOptions, LlmProvider, LlmRequest, LlmResult, StructuredLlmResult } from '../types/llm';
+import { OutputSchema, StructuredOutputError, parseStructured } from '../utils/structuredOutput';
+import { getStructuredRepairPrompt } from '../utils/prompts';
+import { getCatalogueEntry } from '../utils/modelCatalogue';
+import openAiLlmService from './openaiLlm.service';
+import mockLlmService from './mockLlm.service';
+
+const PROVIDERS: Record<string, LlmProvider> = {
+    openai: openAiLlmService,
+    mock: mockLlmService,
+};
+
+// Rate limits, upstream/server failures and timeouts are worth another try
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+// Network failures where the request never got a response
+const CONNECTION_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+// Fields a failed provider call may carry (SDK API errors, fetch/socket errors, mock errors)
+interface ProviderError {
+    status?: number;
+    code?: string;
+    message?: string;
+    cause?: { code?: string };
+}
+
+function asProviderError(error: unknown): ProviderError {
+    return typeof error === 'object' && error !== null ? error as ProviderError : {};
+}
+
+/**
+ * Every model in the fallback chain failed
+ */
+export class LlmUnavailableError extends Error {
+    constructor(message: string, public readonly info: LlmCallInfo) {
+        super(message);
+        this.name = 'LlmUnavailableError';
+    }
+}
+
+/**
+ * A stream failed after content had already been sent, so it can't be retried
+ */
+export class LlmStreamInterruptedError extends Error {
+    constructor(message: string, public readonly info: LlmCallInfo) {
+        super(message);
+        this.name = 'LlmStreamInterruptedError';
+    }
+}
+
+interface RetryConfig {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+/**
+ * Streamed completion; `info` is filled in as attempts are made
+ */
+export class LlmStream implements AsyncIterable<string> {
+    public info: LlmCallInfo = { model: '', attempts: [] };
+
+    constructor(private readonly run: (info: LlmCallInfo) => AsyncGenerator<string, void, unknown>) { }
+
+    [Symbol.asyncIterator](): AsyncIterator<string> {
+        return this.run(this.info);
+    }
+}
+
+function getRetryConfig(): RetryConfig {
+    return {
+        timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10),
+        maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+        baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_MS || '500', 10),
+        maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_MS || '8000', 10),
+    };
+}
+
+/**
+ * Exponential backoff with jitter: a random delay in [d/2, d] where d doubles per attempt
+ */
+function backoffDelay(attempt: number, config: RetryConfig): number {
+    const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Comma-separated model names from env
+ */
+function parseModelList(value: string | undefined): string[] {
+    return (value || '').split(',').map(m => m.trim()).filter(Boolean);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Abort signal for one attempt: fires on caller abort or when the attempt times out.
+ * `touch()` restarts the timer, so for streams the timeout bounds the gap between chunks.
+ */
+function attemptSignal(timeoutMs: number, signal?: AbortSignal) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: NodeJS.Timeout;
+
+    const touch = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(new Error(`Timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+    };
+    const onAbort = () => controller.abort(signal!.reason);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    touch();
+
+    return {
+        signal: controller.signal,
+        touch,
+        timedOut: () => timedOut,
+        dispose: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        },
+    };
+}
 
 class LlmService {
     private static instance: LlmService;
-    private client: OpenAI | null = null;
-    private model: string = 'openai/gpt-3.5-turbo';
+    private logged = false;
 
     private constructor() { }
 
@@ -14,98 +160,272 @@ class LlmService {
         return LlmService.instance;
     }
 
-    public init() {
-        const apiKey = process.env.OPENROUTER_API_KEY; // Using OpenRouter
-        const baseURL = process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1';
+    /**
+     * Resolved lazily so that env loaded by dotenv after imports is respected
+     */
+    public getProvider(): LlmProvider {
+        const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+        const provider = PROVIDERS[name];
 
-        this.model = process.env.LLM_MODEL || 'openai/gpt-3.5-turbo';
+        if (!provider) {
+            throw new Error(`Unknown LLM_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(' or ')})`);
+        }
 
-        if (!apiKey) {
-            console.warn('OpenRouter API Key is missing!');
-            return;
+        if (!this.logged) {
+            console.log(`[LLM] Using ${provider.name} provider`);
+            this.logged = true;
         }
 
-        this.client = new OpenAI({
-            apiKey: apiKey,
-            baseURL: baseURL,
-        });
+        return provider;
+    }
+
+    /**
+     * Requested (or primary) model followed by LLM_FALLBACK_MODELS, in order
+     */
+    private getModelChain(provider: LlmProvider, model?: string): string[] {
+        return [...new Set([model || provider.getDefaultModel(), ...parseModelList(process.env.LLM_FALLBACK_MODELS)])];
+    }
+
+    /**
+     * Models a request may ask for: the primary and fallback models plus LLM_ALLOWED_MODELS
+     */
+    public getAllowedModels(): string[] {
+        const provider = this.getProvider();
+        return [...new Set([...this.getModelChain(provider), ...parseModelList(process.env.LLM_ALLOWED_MODELS)])];
+    }
+
+    public isModelAllowed(model: string): boolean {
+        return this.getAllowedModels().includes(model);
     }
 
-    private buildMessages(
+    /**
+     * Both the endpoint (LLM_JSON_MODE) and the model (its catalogue entry) have to support JSON mode
+     */
+    public supportsJsonMode(provider: LlmProvider, model: string): boolean {
+        return provider.supportsJsonMode() && (getCatalogueEntry(model)?.capabilities?.json_mode ?? true);
+    }
+
+    private buildRequest(
         systemPrompt: string,
         userMessage: string,
-        conversationHistory: { role: 'user' | 'assistant'; content: string }[] = []
-    ): { role: 'system' | 'user' | 'assistant'; content: string }[] {
-        const messages: { role: 'system' | 'user' | 'assistant'; content: string }[] = [
-            { role: 'system', content: systemPrompt },
-        ];
-
-        for (const msg of conversationHistory) {
-            messages.push({ role: msg.role, content: msg.content });
+        conversationHistory: ConversationTurn[]
+    ): LlmRequest {
+        return {
+            systemPrompt,
+            userMessage,
+            conversationHistory,
+            temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
+        };
+    }
+
+    private isRetryable(error: unknown, timedOut: boolean): boolean {
+        if (timedOut) return true;
+        const { status } = asProviderError(error);
+        if (status !== undefined) return RETRYABLE_STATUSES.has(status) || status >= 500;
+        // Without a status, only retry connection failures; config and programming errors won't go away
+        return this.isConnectionError(error);
+    }
+
+    private isConnectionError(error: unknown): boolean {
+        if (error instanceof APIConnectionError) return true;
+        const { code, cause } = asProviderError(error);
+        const errorCode = code ?? cause?.code;
+        return typeof errorCode === 'string' && CONNECTION_ERROR_CODES.has(errorCode);
+    }
+
+    private recordFailure(info: LlmCallInfo, model: string, attempt: number, started: number, error: unknown, timeoutMs?: number): LlmAttempt {
+        const { status, message } = asProviderError(error);
+        const failed: LlmAttempt = {
+            model,
+            attempt,
+            ok: false,
+            duration_ms: Date.now() - started,
+            ...(status !== undefined ? { status } : {}),
+            error: timeoutMs ? `Timed out after ${timeoutMs}ms` : (message || String(error)),
+        };
+        info.attempts.push(failed);
+        return failed;
+    }
+
+    /**
+     * Run `call` across the model chain with per-attempt timeouts and retries
+     */
+    private async withRetries(
+        label: string,
+        request: LlmRequest,
+        { signal, model: requested }: LlmCallOptions,
+        call: (provider: LlmProvider, request: LlmRequest) => Promise<string>
+    ): Promise<LlmResult> {
+        const provider = this.getProvider();
+        const config = getRetryConfig();
+        const info: LlmCallInfo = { model: '', attempts: [] };
+
+        for (const model of this.getModelChain(provider, requested)) {
+            for (let attempt = 1; attempt <= config.maxRetries + 1; attempt++) {
+                const started = Date.now();
+                const attemptAbort = attemptSignal(config.timeoutMs, signal);
+                try {
+                    const content = await call(provider, { ...request, model, signal: attemptAbort.signal });
+                    info.attempts.push({ model, attempt, ok: true, duration_ms: Date.now() - started });
+                    info.model = model;
+                    if (info.attempts.length > 1) {
+                        console.log(`[LLM] ${label} answered by ${model} after ${info.attempts.length} attempts`);
+                    }
+                    return { content, ...info };
+                } catch (error) {
+                    if (signal?.aborted) throw error;
+                    const failed = this.recordFailure(info, model, attempt, started, error, attemptAbort.timedOut() ? config.timeoutMs : undefined);
+                    if (!this.isRetryable(error, attemptAbort.timedOut()) || attempt > config.maxRetries) {
+                        console.warn(`[LLM] ${label} failed on ${model} (attempt ${attempt}): ${failed.error}`);
+                        break;
+                    }
+                    const delay = backoffDelay(attempt, config);
+                    console.warn(`[LLM] ${label} failed on ${model} (attempt ${attempt}): ${failed.error}; retrying in ${delay}ms`);
+                    await sleep(delay, signal);
+                } finally {
+                    attemptAbort.dispose();
+                }
+            }
         }
 
-        messages.push({ role: 'user', content: userMessage });
-        return messages;
+        const last = info.attempts[info.attempts.length - 1];
+        throw new LlmUnavailableError(`LLM unavailable after ${info.attempts.length} attempts: ${last?.error}`, info);
     }
 
     public async callLlm(
         systemPrompt: string,
         userMessage: string,
-        conversationHistory: { role: 'user' | 'assistant'; content: string }[] = []
-    ): Promise<string> {
-        if (!this.client) this.init();
-
-        if (!this.client) {
-            throw new Error("LLM Client not initialized");
+        conversationHistory: ConversationTurn[] = [],
+        options: LlmCallOptions = {}
+    ): Promise<LlmResult> {
+        try {
+            return await this.withRetries('Completion', this.buildRequest(systemPrompt, userMessage, conversationHistory), options,
+                (provider, request) => provider.complete(request));
+        } catch (error) {
+            if (!options.signal?.aborted) console.error('LLM Call Error:', error);
+            throw error;
         }
+    }
 
+    /**
+     * Like callLlm, but the model is asked to return a single JSON object
+     * (using the provider's JSON mode when it has one)
+     */
+    public async callLlmJson(
+        systemPrompt: string,
+        userMessage: string,
+        conversationHistory: ConversationTurn[] = [],
+        options: LlmCallOptions = {}
+    ): Promise<LlmResult> {
         try {
-            const messages = this.buildMessages(systemPrompt, userMessage, conversationHistory);
-
-            const response = await this.client.chat.completions.create({
-                model: this.model,
-                messages,
-                temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
-            });
-
-            return response.choices[0].message.content || '';
+            return await this.withRetries('JSON completion', this.buildRequest(systemPrompt, userMessage, conversationHistory), options,
+                (provider, request) => this.supportsJsonMode(provider, request.model || provider.getDefaultModel())
+                    ? provider.completeJson(request)
+                    : provider.complete(request));
         } catch (error) {
-            console.error('LLM Call Error:', error);
+            if (!options.signal?.aborted) console.error('LLM JSON Call Error:', error);
             throw error;
         }
     }
 
     /**
-     * Streaming LLM call - returns an async generator yielding content chunks
+     * JSON call validated against `schema`. If the reply doesn't parse or validate,
+     * the model gets one repair re-prompt listing the problems; if that fails too,
+     * a StructuredOutputError is thrown.
      */
-    public async *callLlmStream(
+    public async callLlmStructured<T>(
+        schema: OutputSchema<T>,
         systemPrompt: string,
         userMessage: string,
-        conversationHistory: { role: 'user' | 'assistant'; content: string }[] = []
-    ): AsyncGenerator<string, void, unknown> {
-        if (!this.client) this.init();
+        conversationHistory: ConversationTurn[] = [],
+        options: LlmCallOptions = {}
+    ): Promise<StructuredLlmResult<T>> {
+        const first = await this.callLlmJson(systemPrompt, userMessage, conversationHistory, options);
+        try {
+            return { ...first, value: parseStructured(first.content, schema), repaired: false };
+        } catch (error) {
+            if (!(error instanceof StructuredOutputError)) throw error;
+            console.warn(`[LLM] Invalid ${schema.name} output from ${first.model}, asking for a repair: ${error.issues.join('; ')}`);
 
-        if (!this.client) {
-            throw new Error("LLM Client not initialized");
+            const repairHistory: ConversationTurn[] = [
+                ...conversationHistory,
+                { role: 'user', content: userMessage },
+                { role: 'assistant', content: first.content },
+            ];
+            const repair = await this.callLlmJson(systemPrompt, getStructuredRepairPrompt(error.issues, schema.shape), repairHistory, options);
+            return {
+                ...repair,
+                attempts: [...first.attempts, ...repair.attempts],
+                value: parseStructured(repair.content, schema),
+                repaired: true,
+            };
         }
+    }
 
-        const messages = this.buildMessages(systemPrompt, userMessage, conversationHistory);
+    /**
+     * Streaming LLM call - iterate it for content chunks. Aborting `options.signal` cancels the upstream request.
+     * Failures before the first chunk are retried like callLlm; a failure after that
+     * throws LlmStreamInterruptedError, since the partial answer has already been sent.
+     */
+    public callLlmStream(
+        systemPrompt: string,
+        userMessage: string,
+        conversationHistory: ConversationTurn[] = [],
+        options: LlmCallOptions = {}
+    ): LlmStream {
+        const request = this.buildRequest(systemPrompt, userMessage, conversationHistory);
+        return new LlmStream(info => this.streamWithRetries(request, options, info));
+    }
 
-        const stream = await this.client.chat.completions.create({
-            model: this.model,
-            messages,
-            temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
-            stream: true,
-        });
+    private async *streamWithRetries(
+        baseRequest: LlmRequest,
+        { signal, model: requested }: LlmCallOptions,
+        info: LlmCallInfo
+    ): AsyncGenerator<string, void, unknown> {
+        const provider = this.getProvider();
+        const config = getRetryConfig();
 
-        for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
-            if (content) {
-                yield content;
+        for (const model of this.getModelChain(provider, requested)) {
+            for (let attempt = 1; attempt <= config.maxRetries + 1; attempt++) {
+                const started = Date.now();
+                const attemptAbort = attemptSignal(config.timeoutMs, signal);
+                let streamed = false;
+                try {
+                    for await (const chunk of provider.stream({ ...baseRequest, model, signal: attemptAbort.signal })) {
+                        attemptAbort.touch();
+                        streamed = true;
+                        info.model = model;
+                        yield chunk;
+                    }
+                    info.attempts.push({ model, attempt, ok: true, duration_ms: Date.now() - started });
+                    info.model = model;
+                    if (info.attempts.length > 1) {
+                        console.log(`[LLM] Stream answered by ${model} after ${info.attempts.length} attempts`);
+                    }
+                    return;
+                } catch (error) {
+                    if (signal?.aborted) throw error;
+                    const failed = this.recordFailure(info, model, attempt, started, error, attemptAbort.timedOut() ? config.timeoutMs : undefined);
+                    if (streamed) {
+                        console.error(`[LLM] Stream from ${model} failed mid-response: ${failed.error}`);
+                        throw new LlmStreamInterruptedError(`Response interrupted: ${failed.error}`, info);
+                    }
+                    if (!this.isRetryable(error, attemptAbort.timedOut()) || attempt > config.maxRetries) {
+                        console.warn(`[LLM] Stream failed on ${model} (attempt ${attempt}): ${failed.error}`);
+                        break;
+                    }
+                    const delay = backoffDelay(attempt, config);
+                    console.warn(`[LLM] Stream failed on ${model} (attempt ${attempt}): ${failed.error}; retrying in ${delay}ms`);
+                    await sleep(delay, signal);
+                } finally {
+                    attemptAbort.dispose();
+                }
             }
         }
+
+        const last = info.attempts[info.attempts.length - 1];
+        throw new LlmUnavailableError(`LLM unavailable after ${info.attempts.length} attempts: ${last?.error}`, info);
     }
 }
 
 export default LlmService.getInstance();
-
@@ -0,0 +1,127 @@
+/**
+ * Local Vector Store
+ * SQLite-persisted vectors with brute-force cosine search, for offline development
+ * and small deployments that don't need Pinecone. Namespaces are kept in metadata.
+ */
+
+import { run, all } from '../utils/db';
+import { matchesFilter, namespaceFilter } from '../utils/metadataFilter';
+import { encodeVector, decodeVector } from '../utils/vectorMath';
+import { Match, Metadata, VectorQueryOptions, VectorRecord, VectorStore } from '../types/vectorStore';
+
+interface StoredVector {
+    values: Float32Array;
+    norm: number;
+    metadata: Metadata;
+}
+
+class LocalVectorService implements VectorStore {
+    private static instance: LocalVectorService;
+    public readonly name = 'local';
+
+    // Full copy of the table, loaded on first use
+    private vectors: Map<string, StoredVector> | null = null;
+    private loading: Promise<Map<string, StoredVector>> | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): LocalVectorService {
+        if (!LocalVectorService.instance) {
+            LocalVectorService.instance = new LocalVectorService();
+        }
+        return LocalVectorService.instance;
+    }
+
+    private async load(): Promise<Map<string, StoredVector>> {
+        if (this.vectors) return this.vectors;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const rows = await all('SELECT id, vector, metadata FROM vectors');
+                const vectors = new Map<string, StoredVector>();
+                for (const row of rows) {
+                    vectors.set(row.id, this.toStored(decodeVector(row.vector), row.metadata ? JSON.parse(row.metadata) : {}));
+                }
+                console.log(`[LocalVector] Loaded ${vectors.size} vectors`);
+                this.vectors = vectors;
+                return vectors;
+            })();
+        }
+        return this.loading;
+    }
+
+    public async query(vector: number[], options: VectorQueryOptions): Promise<Match[]> {
+        const vectors = await this.load();
+        const queryNorm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        const inNamespace = namespaceFilter(options.namespace);
+
+        const matches: Match[] = [];
+        for (const [id, stored] of vectors) {
+            if (!matchesFilter(stored.metadata, inNamespace) || !matchesFilter(stored.metadata, options.filter)) continue;
+            if (stored.values.length !== vector.length) continue;
+
+            let dot = 0;
+            for (let i = 0; i < vector.length; i++) {
+                dot += vector[i] * stored.values[i];
+            }
+
+            matches.push({
+                id,
+                score: dot / (queryNorm * stored.norm),
+                values: options.includeValues ? Array.from(stored.values) : undefined,
+                metadata: stored.metadata
+            });
+        }
+
+        matches.sort((a, b) => b.score - a.score);
+        return matches.slice(0, options.topK);
+    }
+
+    public async upsert(records: VectorRecord[], namespace?: string): Promise<void> {
+        const vectors = await this.load();
+        for (const record of records) {
+            const metadata = namespace ? { ...record.metadata, namespace } : (record.metadata || {});
+            await run('INSERT OR REPLACE INTO vectors (id, vector, metadata) VALUES (?, ?, ?)', [
+                record.id,
+                encodeVector(record.values),
+                JSON.stringify(metadata)
+            ]);
+            vectors.set(record.id, this.toStored(new Float32Array(record.values), metadata));
+        }
+    }
+
+    public async delete(ids: string[], namespace?: string): Promise<void> {
+        const vectors = await this.load();
+        // Like Pinecone, only records in the given namespace (or the shared index) are removed
+        const inNamespace = namespaceFilter(namespace);
+        const targets = ids.filter(id => {
+            const stored = vectors.get(id);
+            return stored !== undefined && matchesFilter(stored.metadata, inNamespace);
+        });
+        if (targets.length === 0) return;
+
+        const placeholders = targets.map(() => '?').join(', ');
+        await run(`DELETE FROM vectors WHERE id IN (${placeholders})`, targets);
+        targets.forEach(id => vectors.delete(id));
+    }
+
+    public async fetch(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+        const vectors = await this.load();
+        const inNamespace = namespaceFilter(namespace);
+        const records: VectorRecord[] = [];
+        for (const id of ids) {
+            const stored = vectors.get(id);
+            if (stored && matchesFilter(stored.metadata, inNamespace)) {
+                records.push({ id, values: Array.from(stored.values), metadata: stored.metadata });
+            }
+        }
+        return records;
+    }
+
+    private toStored(values: Float32Array, metadata: Metadata): StoredVector {
+        let sumSq = 0;
+        for (let i = 0; i < values.length; i++) sumSq += values[i] * values[i];
+        return { values, norm: Math.sqrt(sumSq) || 1, metadata };
+    }
+}
+
+export default LocalVectorService.getInstance();
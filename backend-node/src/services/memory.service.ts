@@ -0,0 +1,121 @@
+/**
+ * Conversation Memory
+ * Records each completed turn and keeps the stored history within the token
+ * budget by folding the oldest turns into an LLM-written running summary.
+ */
+
+import llmService from './llm.service';
+import attachmentService from './attachment.service';
+import {
+    appendToContextWindow,
+    getMemoryTokenBudget,
+    getSummary,
+    getUnsummarizedMessages,
+    pruneIdleConversations,
+    saveSummary,
+    ContextMessage,
+} from '../utils/contextWindow';
+import { getConversationSummaryPrompt } from '../utils/prompts';
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+class MemoryService {
+    private static instance: MemoryService;
+    private compacting = new Set<string>(); // Conversations with a summary in progress
+    private lastPrune = 0;
+
+    private constructor() { }
+
+    public static getInstance(): MemoryService {
+        if (!MemoryService.instance) {
+            MemoryService.instance = new MemoryService();
+        }
+        return MemoryService.instance;
+    }
+
+    /**
+     * Store a completed turn. Summarizing and pruning run in the background.
+     */
+    public async recordTurn(conversationId: string, userMessage: string, assistantText: string): Promise<void> {
+        await appendToContextWindow(conversationId, [
+            { role: 'user', content: userMessage },
+            { role: 'assistant', content: assistantText },
+        ]);
+
+        this.compact(conversationId).catch(err => console.error(`[Memory] Failed to summarize ${conversationId}:`, err));
+        this.pruneIfDue().catch(err => console.error('[Memory] Failed to prune idle conversations:', err));
+    }
+
+    /**
+     * Once unsummarized turns exceed the budget, fold the oldest ones into the summary,
+     * keeping the most recent turns (up to MEMORY_RECENT_SHARE of the budget) verbatim
+     */
+    public async compact(conversationId: string): Promise<void> {
+        if (this.compacting.has(conversationId)) return;
+        this.compacting.add(conversationId);
+
+        try {
+            const budget = getMemoryTokenBudget();
+            const messages = await getUnsummarizedMessages(conversationId);
+            const total = messages.reduce((sum, m) => sum + m.tokens, 0);
+            if (total <= budget) return;
+
+            const toFold = this.selectMessagesToFold(messages, budget);
+            if (toFold.length === 0) return;
+
+            const previous = await getSummary(conversationId);
+            const maxWords = parseInt(process.env.MEMORY_SUMMARY_MAX_WORDS || '200', 10);
+            const transcript = toFold.map(m => `${m.role === 'user' ? 'User' : 'Neo'}: ${m.content}`).join('\n\n');
+
+            const { content } = await llmService.callLlm(
+                getConversationSummaryPrompt(previous?.summary || '', transcript, maxWords),
+                'Write the updated summary.'
+            );
+            const summary = content.trim();
+            if (!summary) return;
+
+            await saveSummary(conversationId, summary, toFold[toFold.length - 1].id);
+            console.log(`[Memory] Folded ${toFold.length} messages of ${conversationId} into its summary (${total} tokens over a ${budget} budget)`);
+        } finally {
+            this.compacting.delete(conversationId);
+        }
+    }
+
+    /**
+     * Oldest messages, leaving the newest ones that fit in the recent share of the budget
+     * (always at least the last exchange)
+     */
+    private selectMessagesToFold(messages: ContextMessage[], budget: number): ContextMessage[] {
+        const recentBudget = budget * parseFloat(process.env.MEMORY_RECENT_SHARE || '0.5');
+        let keep = 0;
+        let tokens = 0;
+        while (keep < messages.length) {
+            const next = messages[messages.length - 1 - keep];
+            if (keep >= 2 && tokens + next.tokens > recentBudget) break;
+            tokens += next.tokens;
+            keep++;
+        }
+        return messages.slice(0, messages.length - keep);
+    }
+
+    /**
+     * Forget conversations idle for longer than MEMORY_TTL_DAYS, and their attachments (checked at most hourly)
+     */
+    private async pruneIfDue(): Promise<void> {
+        const ttlDays = parseFloat(process.env.MEMORY_TTL_DAYS || '30');
+        if (ttlDays <= 0 || Date.now() - this.lastPrune < PRUNE_INTERVAL_MS) return;
+        this.lastPrune = Date.now();
+
+        const before = Date.now() - ttlDays * 24 * 60 * 60 * 1000;
+        const pruned = await pruneIdleConversations(before);
+        if (pruned.length > 0) console.log(`[Memory] Pruned ${pruned.length} idle conversations`);
+
+        // Attachments would otherwise stay in the index with no way to reach them. Found by
+        // namespace rather than from `pruned`, so uploads to conversations that never got
+        // an answer go too.
+        const withAttachments = await attachmentService.pruneIdleAttachments(before);
+        if (withAttachments.length > 0) console.log(`[Memory] Pruned the attachments of ${withAttachments.length} idle conversations`);
+    }
+}
+
+export default MemoryService.getInstance();
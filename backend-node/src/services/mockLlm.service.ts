@@ -0,0 +1,138 @@
+/**
+ * Mock LLM Provider
+ * Deterministic, scripted responses for offline development and integration tests.
+ * Every call is recorded so tests can assert the exact prompts that were sent.
+ */
+
+import fs from 'fs';
+import { ConversationTurn, LlmProvider, LlmRequest } from '../types/llm';
+
+export interface MockLlmRule {
+    system?: string;            // Regex the system prompt must match
+    user?: string;              // Regex the user message must match
+    model?: string;             // Regex the requested model must match
+    response?: string | object; // Objects are sent as JSON
+    error?: { status?: number; message: string }; // Fail the call instead (e.g. 429/503 to exercise retries)
+    once?: boolean;             // Drop the rule after its first match
+}
+
+export interface MockLlmCall {
+    method: 'complete' | 'completeJson' | 'stream';
+    model: string;
+    systemPrompt: string;
+    userMessage: string;
+    conversationHistory: ConversationTurn[];
+}
+
+// Unmatched calls: block JSON, or plain markdown for streaming (the streaming prompts ask for text)
+const DEFAULT_TEXT = 'This is a mock response.';
+const DEFAULT_RESPONSE = {
+    blocks: [{ type: 'paragraph', content: DEFAULT_TEXT }],
+};
+
+class MockLlmService implements LlmProvider {
+    private static instance: MockLlmService;
+    public readonly name = 'mock';
+
+    public calls: MockLlmCall[] = [];
+    private rules: MockLlmRule[] | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): MockLlmService {
+        if (!MockLlmService.instance) {
+            MockLlmService.instance = new MockLlmService();
+        }
+        return MockLlmService.instance;
+    }
+
+    /**
+     * Replace the scripted rules. Rules are tried in order.
+     */
+    public script(rules: MockLlmRule[]): void {
+        this.rules = [...rules];
+    }
+
+    /**
+     * Clear recorded calls and rules (rules are reloaded from LLM_MOCK_SCRIPT on next use)
+     */
+    public reset(): void {
+        this.calls = [];
+        this.rules = null;
+    }
+
+    public getDefaultModel(): string {
+        return process.env.LLM_MODEL || 'mock';
+    }
+
+    public supportsJsonMode(): boolean {
+        return true;
+    }
+
+    public lastCall(): MockLlmCall | undefined {
+        return this.calls[this.calls.length - 1];
+    }
+
+    public async complete(request: LlmRequest): Promise<string> {
+        return this.respond('complete', request);
+    }
+
+    public async completeJson(request: LlmRequest): Promise<string> {
+        return this.respond('completeJson', request);
+    }
+
+    /**
+     * Yields the scripted response word by word
+     */
+    public async *stream(request: LlmRequest): AsyncGenerator<string, void, unknown> {
+        const response = this.respond('stream', request);
+        for (const chunk of response.match(/\s*\S+\s*/g) || []) {
+            request.signal?.throwIfAborted();
+            await Promise.resolve();
+            yield chunk;
+        }
+    }
+
+    private respond(method: MockLlmCall['method'], request: LlmRequest): string {
+        request.signal?.throwIfAborted();
+        const model = request.model || this.getDefaultModel();
+        this.calls.push({
+            method,
+            model,
+            systemPrompt: request.systemPrompt,
+            userMessage: request.userMessage,
+            conversationHistory: request.conversationHistory.map(turn => ({ ...turn })),
+        });
+
+        const rules = this.getRules();
+        const index = rules.findIndex(rule =>
+            (!rule.system || new RegExp(rule.system).test(request.systemPrompt)) &&
+            (!rule.user || new RegExp(rule.user).test(request.userMessage)) &&
+            (!rule.model || new RegExp(rule.model).test(model))
+        );
+
+        if (index === -1) return method === 'stream' ? DEFAULT_TEXT : JSON.stringify(DEFAULT_RESPONSE);
+
+        const { response = '', error, once } = rules[index];
+        if (once) rules.splice(index, 1);
+
+        if (error) {
+            throw Object.assign(new Error(error.message), { status: error.status });
+        }
+        return typeof response === 'string' ? response : JSON.stringify(response);
+    }
+
+    /**
+     * Rules set via script(), else loaded from the JSON file at LLM_MOCK_SCRIPT
+     */
+    private getRules(): MockLlmRule[] {
+        if (!this.rules) {
+            const scriptPath = process.env.LLM_MOCK_SCRIPT;
+            this.rules = scriptPath ? JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) : [];
+            if (scriptPath) console.log(`[MockLLM] Loaded ${this.rules!.length} rules from ${scriptPath}`);
+        }
+        return this.rules!;
+    }
+}
+
+export default MockLlmService.getInstance();
@@ -0,0 +1,50 @@
+/**
+ * Model Catalogue
+ * Describes the models chat requests may pick (LLM_MODEL, LLM_FALLBACK_MODELS and
+ * LLM_ALLOWED_MODELS) with display names, context windows and capabilities from
+ * config/models.json (or MODEL_CATALOGUE). Models missing from the file are still
+ * listed, named by their id.
+ */
+
+import llmService from './llm.service';
+import { getCatalogueEntries } from '../utils/modelCatalogue';
+import { ModelInfo } from '../types/models';
+
+class ModelCatalogueService {
+    private static instance: ModelCatalogueService;
+
+    private constructor() { }
+
+    public static getInstance(): ModelCatalogueService {
+        if (!ModelCatalogueService.instance) {
+            ModelCatalogueService.instance = new ModelCatalogueService();
+        }
+        return ModelCatalogueService.instance;
+    }
+
+    /**
+     * Every allowed model, the default first
+     */
+    public listModels(): ModelInfo[] {
+        const provider = llmService.getProvider();
+        const defaultModel = provider.getDefaultModel();
+        const entries = getCatalogueEntries();
+
+        return llmService.getAllowedModels().map(id => {
+            const entry = entries.get(id);
+            return {
+                id,
+                name: entry?.name || id,
+                description: entry?.description || '',
+                context_window: entry?.context_window ?? null,
+                capabilities: {
+                    streaming: entry?.capabilities?.streaming ?? true,
+                    json_mode: llmService.supportsJsonMode(provider, id),
+                },
+                default: id === defaultModel,
+            };
+        });
+    }
+}
+
+export default ModelCatalogueService.getInstance();
@@ -1,16 +1,47 @@
 import { v4 as uuidv4 } from 'uuid';
 import hybridService, { HybridSearchResult } from './hybrid.service';
 import llmService from './llm.service';
-import feedbackService from './feedback.service';
+import feedbackService, { HopLog } from './feedback.service';
+import embeddingService from './embedding.service';
 import { getQueryDecompositionPrompt } from '../utils/prompts';
 import { getContextFromHybridResults } from './rag.service';
+import { FusionRequest } from '../types/fusion';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { StageTimer, StageTimings } from '../utils/timing';
+import { sufficiencySchema } from '../utils/structuredOutput';
 
-interface MultiHopResult {
+export interface MultiHopResult {
     results: HybridSearchResult[];
     hops: number;
     generatedQueries: string[];
     queryId: string;
     hopIds: string[];
+    template?: ReusedTemplate; // Set when a past decomposition was replayed
+    timings: StageTimings;     // Milliseconds per retrieval stage
+}
+
+export interface ReusedTemplate {
+    queryId: string;
+    queryText: string;
+    similarity: number;
+}
+
+/**
+ * Progress reported while retrieval runs (streamed to the client as SSE events)
+ */
+export type MultiHopProgressEvent =
+    | { type: 'hop_start'; hop: number; stage: 'initial' | 'template' | 'sufficiency'; template_query?: string; similarity?: number }
+    | { type: 'hop_queries'; hop: number; queries: string[]; sufficient: boolean }
+    | { type: 'hop_results'; hop: number; query: string; count: number; top_score: number | null }
+    | { type: 'retrieval_done'; hops: number; total_results: number; top_score: number | null };
+
+export interface MultiHopOptions {
+    fusion?: FusionRequest; // Per-request fusion strategy override
+    onProgress?: (event: MultiHopProgressEvent) => void;
+    signal?: AbortSignal;   // Stops retrieval (throws) when the client goes away
+    queryId?: string;       // Log under a caller-provided query ID
+    originalQuery?: string; // The user's message, when the searched query is its standalone rewrite
+    namespace?: string;     // Also search this namespace (the conversation's attachments)
 }
 
 class MultiHopService {
@@ -26,77 +57,134 @@ class MultiHopService {
     }
 
     /**
-     * Perform multi-hop search with specific attention to feedback history
+     * Perform multi-hop search with specific attention to feedback history.
+     * Sub-queries of a hop run concurrently (MULTIHOP_CONCURRENCY); hop and document
+     * logs are written in one background transaction once retrieval is done.
      */
     public async performMultiHopSearch(
         originalQuery: string,
-        maxHops: number = 1
+        maxHops: number = 1,
+        options: MultiHopOptions = {}
     ): Promise<MultiHopResult> {
-        const queryId = uuidv4();
+        const queryId = options.queryId || uuidv4();
+        const { signal } = options;
+        const timer = new StageTimer();
+        const configuredConcurrency = parseInt(process.env.MULTIHOP_CONCURRENCY || '3', 10);
+        const concurrency = configuredConcurrency > 0 ? configuredConcurrency : 3;
         console.log(`[MultiHop] Starting search for: "${originalQuery}" (ID: ${queryId})`);
 
+        // A failing progress listener must never break retrieval
+        const emit = (event: MultiHopProgressEvent) => {
+            try {
+                options.onProgress?.(event);
+            } catch (err) {
+                console.error('[MultiHop] Progress listener failed:', err);
+            }
+        };
+        const topScore = (results: HybridSearchResult[]) => hybridService.getHighestScore(results);
+
         // Log Query Start
-        await feedbackService.logQuery(queryId, originalQuery);
+        await timer.time('log_query', () => feedbackService.logQuery(queryId, originalQuery, options.originalQuery));
+
+        // Embedding is cached, so the hybrid search for hop 0 reuses it
+        let queryEmbedding: number[] | null = null;
+        try {
+            queryEmbedding = await timer.time('embedding', () => embeddingService.generateEmbedding(originalQuery));
+            await feedbackService.logQueryEmbedding(queryId, queryEmbedding);
+        } catch (err) {
+            console.error('[MultiHop] Query embedding failed, skipping template lookup:', err);
+        }
+        signal?.throwIfAborted();
 
-        const hopIds: string[] = [];
+        const hopLogs: HopLog[] = [];
         const seenIds = new Set<string>();
-        let allResults: HybridSearchResult[] = [];
+        const allResults: HybridSearchResult[] = [];
         const generatedQueries: string[] = [];
 
-        // 0. Check for Successful Template (One-Shot Learning)
-        const successfulTemplate = await feedbackService.getSuccessfulTemplate(originalQuery);
-
-        if (successfulTemplate.length > 0) {
-            console.log(`[MultiHop] 🟢 Found successful template with ${successfulTemplate.length} hops. Replaying...`);
-
-            for (const step of successfulTemplate) {
-                const hopId = uuidv4();
-                hopIds.push(hopId);
-                await feedbackService.logHop(hopId, queryId, step.hop_order, step.sub_query, "Replay from history");
-
-                // Execute Search
-                const subResults = await hybridService.performHybridSearch(step.sub_query, 5);
-                generatedQueries.push(step.sub_query);
-
-                // Log Docs & Aggregate
-                let rank = 1;
-                for (const res of subResults) {
-                    await feedbackService.logHopDocument(hopId, res.id, res.semanticScore, res.keywordScore, rank++);
-                    if (!seenIds.has(res.id)) {
-                        seenIds.add(res.id);
-                        allResults.push(res);
-                    }
+        const collect = (results: HybridSearchResult[]) => {
+            for (const res of results) {
+                if (!seenIds.has(res.id)) {
+                    seenIds.add(res.id);
+                    allResults.push(res);
                 }
             }
-            // Logic ends here for template replay? Or do we proceed to check sufficiency?
-            // For now, let's assume template sufficiency is high.
+        };
+
+        // Search one sub-query as its own hop; logging is deferred to the batch at the end
+        const runHop = async (hopOrder: number, subQuery: string, reasoning: string, topK: number) => {
+            const results = await hybridService.performHybridSearch(subQuery, topK, options.fusion, signal, options.namespace);
+            emit({ type: 'hop_results', hop: hopOrder, query: subQuery, count: results.length, top_score: topScore(results) });
+            return { hopId: uuidv4(), hopOrder, subQuery, reasoning, results };
+        };
+
+        const finish = (hops: number, template?: ReusedTemplate): MultiHopResult => {
             allResults.sort((a, b) => b.finalScore - a.finalScore);
+            emit({ type: 'retrieval_done', hops, total_results: allResults.length, top_score: topScore(allResults) });
+
+            feedbackService.queueHopLogs(queryId, hopLogs);
+            console.log(`[MultiHop] Timings: ${timer.format()}`);
+
             return {
                 results: allResults,
-                hops: successfulTemplate.length,
+                hops,
                 generatedQueries,
                 queryId,
-                hopIds
+                hopIds: hopLogs.map(h => h.hopId),
+                template,
+                timings: timer.finish()
+            };
+        };
+
+        // 0. Check for Successful Template (One-Shot Learning)
+        const successfulTemplate = queryEmbedding
+            ? await timer.time('template_lookup', () => feedbackService.getSuccessfulTemplate(queryEmbedding!))
+            : null;
+
+        if (successfulTemplate) {
+            const template: ReusedTemplate = {
+                queryId: successfulTemplate.queryId,
+                queryText: successfulTemplate.queryText,
+                similarity: successfulTemplate.similarity,
             };
+            console.log(`[MultiHop] 🟢 Reusing template from "${template.queryText}" (similarity ${template.similarity.toFixed(3)}) with ${successfulTemplate.hops.length} hops. Replaying...`);
+            await feedbackService.logTemplateReplay(queryId, template.queryId, template.similarity);
+
+            // Hop 0 of the template is the past query's own text: search the current query in its place
+            const replaySteps = [
+                { hopOrder: 0, subQuery: originalQuery, reasoning: 'Initial Query', topK: 10 },
+                ...successfulTemplate.hops
+                    .filter(h => h.hop_order > 0)
+                    .map(h => ({ hopOrder: h.hop_order, subQuery: h.sub_query, reasoning: `Replay from query ${template.queryId}`, topK: 5 })),
+            ];
+
+            emit({ type: 'hop_start', hop: 0, stage: 'template', template_query: template.queryText, similarity: template.similarity });
+            emit({ type: 'hop_queries', hop: 0, queries: replaySteps.map(step => step.subQuery), sufficient: false });
+
+            // Execute all replayed searches concurrently, aggregating in template order
+            const replayed = await timer.time('template_search', () => mapWithConcurrency(
+                replaySteps,
+                concurrency,
+                step => runHop(step.hopOrder, step.subQuery, step.reasoning, step.topK)
+            ));
+            for (const hopLog of replayed) {
+                hopLogs.push(hopLog);
+                if (hopLog.hopOrder > 0) generatedQueries.push(hopLog.subQuery);
+                collect(hopLog.results);
+            }
+
+            // No sufficiency check after a replay: templates come from positively rated answers
+            // (and are demoted once replays get rated down), so the replayed hops stand in for
+            // it. Skipping that LLM round-trip is the point of reusing a template.
+            return finish(replaySteps.length, template);
         }
 
-        // --- Standard Decompostion Loop ---
+        // --- Standard Decomposition Loop ---
 
         // 1. Initial Search (Hop 0)
-        const initialHopId = uuidv4();
-        hopIds.push(initialHopId);
-        await feedbackService.logHop(initialHopId, queryId, 0, originalQuery, "Initial Query");
-
-        let currentResults = await hybridService.performHybridSearch(originalQuery, 10);
-
-        let rank = 1;
-        for (const res of currentResults) {
-            await feedbackService.logHopDocument(initialHopId, res.id, res.semanticScore, res.keywordScore, rank++);
-            if (!seenIds.has(res.id)) {
-                seenIds.add(res.id);
-                allResults.push(res);
-            }
-        }
+        emit({ type: 'hop_start', hop: 0, stage: 'initial' });
+        const initialHop = await timer.time('initial_search', () => runHop(0, originalQuery, "Initial Query", 10));
+        hopLogs.push(initialHop);
+        collect(initialHop.results);
 
         let currentHop = 0;
 
@@ -105,69 +193,52 @@ class MultiHopService {
             const [currentContext] = getContextFromHybridResults(allResults, 0.4);
 
             console.log(`[MultiHop] Hop ${currentHop + 1}/${maxHops}: Evaluating sufficiency...`);
+            emit({ type: 'hop_start', hop: currentHop + 1, stage: 'sufficiency' });
 
             // 2. Ask LLM
             const decompositionPrompt = getQueryDecompositionPrompt(currentContext || "No context found yet.", originalQuery);
             try {
-                const analysisRaw = await llmService.callLlm(decompositionPrompt, "Analyze sufficiency.", []);
-
-                let analysis: { sufficient: boolean; queries: string[] };
-                try {
-                    const cleanJson = analysisRaw.replace(/```json/g, '').replace(/```/g, '').trim();
-                    analysis = JSON.parse(cleanJson);
-                } catch (e) {
-                    console.error("[MultiHop] Failed to parse JSON", e);
-                    break;
-                }
+                const { value: analysis } = await timer.time('sufficiency_check', () =>
+                    llmService.callLlmStructured(sufficiencySchema, decompositionPrompt, "Analyze sufficiency.", [], { signal })
+                );
 
                 if (analysis.sufficient) {
                     console.log("[MultiHop] ✅ Context sufficient.");
+                    emit({ type: 'hop_queries', hop: currentHop + 1, queries: [], sufficient: true });
                     break;
                 }
 
-                if (!analysis.queries || analysis.queries.length === 0) {
+                if (analysis.queries.length === 0) {
                     break;
                 }
 
                 console.log(`[MultiHop] Hop ${currentHop + 1}: Generated queries:`, analysis.queries);
                 generatedQueries.push(...analysis.queries);
-
-                // 3. Execute new queries
-                for (const subQuery of analysis.queries) {
-                    const hopId = uuidv4();
-                    hopIds.push(hopId);
-                    // Use a simple increment for hop order, or track rigorously
-                    await feedbackService.logHop(hopId, queryId, currentHop + 1, subQuery, "LLM Generated");
-
-                    const subResults = await hybridService.performHybridSearch(subQuery, 5);
-
-                    let subRank = 1;
-                    for (const res of subResults) {
-                        await feedbackService.logHopDocument(hopId, res.id, res.semanticScore, res.keywordScore, subRank++);
-                        if (!seenIds.has(res.id)) {
-                            seenIds.add(res.id);
-                            allResults.push(res);
-                        }
-                    }
+                emit({ type: 'hop_queries', hop: currentHop + 1, queries: analysis.queries, sufficient: false });
+
+                // 3. Execute new queries concurrently, aggregating in generated order
+                const hopOrder = currentHop + 1;
+                const subHops = await timer.time('subquery_search', () => mapWithConcurrency(
+                    analysis.queries,
+                    concurrency,
+                    subQuery => runHop(hopOrder, subQuery, "LLM Generated", 5)
+                ));
+                for (const hopLog of subHops) {
+                    hopLogs.push(hopLog);
+                    collect(hopLog.results);
                 }
 
                 currentHop++;
 
             } catch (err) {
+                // Cancellation ends the whole run, other failures just stop hopping
+                if (signal?.aborted) throw err;
                 console.error("[MultiHop] Error during hop evaluation:", err);
                 break;
             }
         }
 
-        allResults.sort((a, b) => b.finalScore - a.finalScore);
-
-        return {
-            results: allResults,
-            hops: currentHop,
-            generatedQueries,
-            queryId,
-            hopIds
-        };
+        return finish(currentHop);
     }
 }
 
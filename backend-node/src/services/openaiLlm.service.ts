@@ -0,0 +1,116 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ * Talks to any endpoint implementing the OpenAI chat completions API:
+ * OpenRouter (default), or a local Ollama / llama.cpp server via LLM_BASE_URL
+ */
+
+import OpenAI from 'openai';
+import { LlmMessage, LlmProvider, LlmRequest } from '../types/llm';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+class OpenAiLlmService implements LlmProvider {
+    private static instance: OpenAiLlmService;
+    public readonly name = 'openai';
+    private client: OpenAI | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): OpenAiLlmService {
+        if (!OpenAiLlmService.instance) {
+            OpenAiLlmService.instance = new OpenAiLlmService();
+        }
+        return OpenAiLlmService.instance;
+    }
+
+    public init() {
+        const baseURL = process.env.LLM_BASE_URL || process.env.OPENROUTER_BASE_URL || OPENROUTER_BASE_URL;
+        const apiKey = process.env.LLM_API_KEY || process.env.OPENROUTER_API_KEY;
+
+        // Local servers don't check the key, but the SDK insists on one
+        if (!apiKey && baseURL === OPENROUTER_BASE_URL) {
+            console.warn('OpenRouter API Key is missing!');
+            return;
+        }
+
+        this.client = new OpenAI({
+            apiKey: apiKey || 'not-needed',
+            baseURL: baseURL,
+            maxRetries: 0, // Retries, timeouts and fallbacks are handled by LlmService
+        });
+    }
+
+    public getDefaultModel(): string {
+        return process.env.LLM_MODEL || 'openai/gpt-3.5-turbo';
+    }
+
+    /**
+     * On by default; set LLM_JSON_MODE=false for servers that reject `response_format`
+     */
+    public supportsJsonMode(): boolean {
+        return process.env.LLM_JSON_MODE !== 'false';
+    }
+
+    private getClient(): OpenAI {
+        if (!this.client) this.init();
+
+        if (!this.client) {
+            throw new Error("LLM Client not initialized");
+        }
+        return this.client;
+    }
+
+    private buildMessages(request: LlmRequest): LlmMessage[] {
+        return [
+            { role: 'system', content: request.systemPrompt },
+            ...request.conversationHistory.map(msg => ({ role: msg.role, content: msg.content })),
+            { role: 'user', content: request.userMessage },
+        ];
+    }
+
+    public async complete(request: LlmRequest): Promise<string> {
+        const response = await this.getClient().chat.completions.create({
+            model: request.model || this.getDefaultModel(),
+            messages: this.buildMessages(request),
+            temperature: request.temperature,
+        }, { signal: request.signal });
+
+        return response.choices[0].message.content || '';
+    }
+
+    public async completeJson(request: LlmRequest): Promise<string> {
+        const response = await this.getClient().chat.completions.create({
+            model: request.model || this.getDefaultModel(),
+            messages: this.buildMessages(request),
+            temperature: request.temperature,
+            response_format: { type: 'json_object' },
+        }, { signal: request.signal });
+
+        return response.choices[0].message.content || '';
+    }
+
+    public async *stream(request: LlmRequest): AsyncGenerator<string, void, unknown> {
+        const stream = await this.getClient().chat.completions.create({
+            model: request.model || this.getDefaultModel(),
+            messages: this.buildMessages(request),
+            temperature: request.temperature,
+            stream: true,
+        }, { signal: request.signal });
+
+        let finishReason: string | null = null;
+        for await (const chunk of stream) {
+            const content = chunk.choices[0]?.delta?.content;
+            finishReason = chunk.choices[0]?.finish_reason || finishReason;
+            if (content) {
+                yield content;
+            }
+        }
+
+        // A stream that stops without a finish reason was cut off upstream
+        if (!finishReason) {
+            throw new Error('Stream ended before the model finished');
+        }
+    }
+}
+
+export default OpenAiLlmService.getInstance();
@@ -1,17 +1,12 @@
 
 import { Pinecone } from '@pinecone-database/pinecone';
-import embeddingService from './embedding.service';
+import { Match, VectorQueryOptions, VectorRecord, VectorStore } from '../types/vectorStore';
 
-export interface Match {
-    id: string;
-    score: number;
-    metadata?: Record<string, any>;
-}
-
-class PineconeService {
+class PineconeService implements VectorStore {
     private static instance: PineconeService;
     private pc: Pinecone | null = null;
     private indexName: string = '';
+    public readonly name = 'pinecone';
 
     private constructor() { }
 
@@ -34,52 +29,67 @@ class PineconeService {
         this.pc = new Pinecone({ apiKey });
     }
 
-    public async queryPinecone(query: string, topK: number = 5): Promise<[Match[], number | null]> {
+    /**
+     * The index, scoped to a Pinecone namespace when one is given
+     */
+    private getIndex(namespace?: string) {
+        if (!this.pc) this.init();
+        if (!this.pc || !this.indexName) {
+            throw new Error("Pinecone not initialized");
+        }
+        const index = this.pc.index(this.indexName);
+        return namespace ? index.namespace(namespace) : index;
+    }
+
+    public async query(vector: number[], options: VectorQueryOptions): Promise<Match[]> {
         if (!this.pc) this.init();
 
         if (!this.pc || !this.indexName) {
             console.error("Pinecone not initialized");
-            return [[], null];
+            return [];
         }
 
         try {
-            const index = this.pc.index(this.indexName);
-
-            const queryEmbedding = await embeddingService.generateEmbedding(query);
+            const index = this.getIndex(options.namespace);
 
             const queryResponse = await index.query({
-                vector: queryEmbedding,
-                topK: topK,
+                vector,
+                topK: options.topK,
+                filter: options.filter,
                 includeMetadata: true,
+                includeValues: options.includeValues || false,
             });
 
-            const matches = queryResponse.matches.map(m => ({
+            return queryResponse.matches.map(m => ({
                 id: m.id,
                 score: m.score || 0,
+                values: options.includeValues ? m.values : undefined,
                 metadata: m.metadata
             }));
 
-            if (matches.length === 0) {
-                return [[], null];
-            }
-
-            const highestScore = Math.max(...matches.map(m => m.score));
-
-            return [matches, highestScore];
-
         } catch (error) {
             console.error('Error querying Pinecone:', error);
-            return [[], null];
+            return [];
         }
     }
 
-    public async upsert(vectors: { id: string; values: number[]; metadata?: Record<string, any> }[]): Promise<void> {
-        if (!this.pc) this.init();
-        if (!this.pc || !this.indexName) {
-            throw new Error("Pinecone not initialized");
-        }
-        const index = this.pc.index(this.indexName);
-        await index.upsert(vectors);
+    public async upsert(vectors: VectorRecord[], namespace?: string): Promise<void> {
+        await this.getIndex(namespace).upsert(vectors);
+    }
+
+    public async delete(ids: string[], namespace?: string): Promise<void> {
+        if (ids.length === 0) return;
+        await this.getIndex(namespace).deleteMany(ids);
+    }
+
+    public async fetch(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+        if (ids.length === 0) return [];
+        const response = await this.getIndex(namespace).fetch(ids);
+        return Object.values(response.records).map(r => ({
+            id: r.id,
+            values: r.values || [],
+            metadata: r.metadata
+        }));
     }
 }
 
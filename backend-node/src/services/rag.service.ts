@@ -1,54 +1,20 @@
-import type { Match } from './pinecone.service';
-
-const STRONG_TRIGGERS = new Set<string>([
-    'cogneoverse',
-    'neo',
-    'orion',
-]);
-
-const WEAK_TRIGGERS = new Set<string>([
-    'internal',
-    'architecture',
-    'system',
-    'project',
-    'documentation',
-    'docs',
-]);
-
-export function detectMode(message: string): 'general' | 'rag_strong' | 'rag_weak' {
-    const messageLower = message.toLowerCase();
-
-    for (const trigger of STRONG_TRIGGERS) {
-        if (messageLower.includes(trigger)) {
-            return 'rag_strong';
-        }
-    }
-
-    for (const trigger of WEAK_TRIGGERS) {
-        if (messageLower.includes(trigger)) {
-            return 'rag_weak';
-        }
-    }
-
-    return 'general';
-}
+import type { Match } from '../types/vectorStore';
+import type { ContextReport } from '../types/chat';
+import type { ChatMode, RouterConfig } from '../types/router';
+import { assembleContext, getContextAssemblyOptions, ContextCandidate, ContextSource } from '../utils/contextAssembly';
+import { formatContextPassage } from '../utils/prompts';
 
+/**
+ * Answer from the knowledge base only if retrieval found something good enough for
+ * the routed mode; weak-signal routes need a stronger match than strong ones
+ */
 export function shouldUseRag(
-    mode: string,
-    pineconeScore: number | null,
-    threshold: number
+    mode: ChatMode,
+    highestScore: number | null,
+    thresholds: RouterConfig['retrieval_thresholds']
 ): boolean {
-    if (mode === 'general') return false;
-
-    if (mode === 'rag_strong') {
-        return pineconeScore !== null && pineconeScore >= threshold;
-    }
-
-    if (mode === 'rag_weak') {
-        return pineconeScore !== null && pineconeScore >= threshold;
-    }
-
-    return false;
+    if (mode === 'general' || highestScore === null) return false;
+    return highestScore >= thresholds[mode];
 }
 
 export function getContextFromMatches(matches: Match[], threshold: number): [string, any[]] {
@@ -62,11 +28,12 @@ export function getContextFromMatches(matches: Match[], threshold: number): [str
         const text = metadata.text;
 
         if (text) {
-            contextParts.push(text);
+            contextParts.push(formatContextPassage(sources.length + 1, String(metadata.title || 'Unknown'), String(text)));
             sources.push({
                 title: metadata.title || 'Unknown',
                 source: metadata.source || 'Unknown',
                 score: Number(match.score.toFixed(3)),
+                text,
             });
         }
     }
@@ -77,34 +44,13 @@ export function getContextFromMatches(matches: Match[], threshold: number): [str
 
 /**
  * Extract context from hybrid search results
- * Uses finalScore for filtering and includes hybrid scoring metadata
+ * Uses finalScore for filtering, drops near-duplicates, orders chunks with MMR
+ * and packs them into the CONTEXT_TOKEN_BUDGET. The report lists dropped chunks.
  */
 export function getContextFromHybridResults(
-    results: { finalScore: number; metadata: Record<string, any>; semanticScore: number; keywordScore: number }[],
+    results: ContextCandidate[],
     threshold: number
-): [string, any[]] {
-    const contextParts: string[] = [];
-    const sources: any[] = [];
-
-    for (const result of results) {
-        if (result.finalScore < threshold) continue;
-
-        const metadata = result.metadata || {};
-        const text = metadata.text;
-
-        if (text) {
-            contextParts.push(text);
-            sources.push({
-                title: metadata.title || 'Unknown',
-                source: metadata.source || 'Unknown',
-                score: Number(result.finalScore.toFixed(3)),
-                semanticScore: Number(result.semanticScore.toFixed(3)),
-                keywordScore: Number(result.keywordScore.toFixed(3)),
-            });
-        }
-    }
-
-    const context = contextParts.join('\n\n---\n\n');
-    return [context, sources];
+): [string, ContextSource[], ContextReport] {
+    const { context, sources, report } = assembleContext(results, getContextAssemblyOptions(threshold));
+    return [context, sources, report];
 }
-
@@ -0,0 +1,51 @@
+/**
+ * Reasoning Pass
+ * Think mode: before answering, the model plans its answer in a few short steps.
+ * The steps are shown in the client's reasoning panel and handed to the answering call.
+ */
+
+import llmService from './llm.service';
+import { getReasoningPrompt, withConversationSummary } from '../utils/prompts';
+import { reasoningSchema } from '../utils/structuredOutput';
+import { ContextWindow } from '../utils/contextWindow';
+import { LlmCallOptions, LlmCallInfo } from '../types/llm';
+
+export interface ReasoningResult {
+    steps: string[];
+    llm: LlmCallInfo;
+}
+
+class ReasoningService {
+    private static instance: ReasoningService;
+
+    private constructor() { }
+
+    public static getInstance(): ReasoningService {
+        if (!ReasoningService.instance) {
+            ReasoningService.instance = new ReasoningService();
+        }
+        return ReasoningService.instance;
+    }
+
+    /**
+     * Plan an answer to `message`, using retrieved `context` when there is any
+     */
+    public async reason(
+        message: string,
+        memory: ContextWindow,
+        context: string,
+        options: LlmCallOptions = {}
+    ): Promise<ReasoningResult> {
+        const { value, model, attempts } = await llmService.callLlmStructured(
+            reasoningSchema,
+            withConversationSummary(getReasoningPrompt(context), memory.summary),
+            message,
+            memory.turns,
+            options
+        );
+        console.log(`[Reasoning] ${value.steps.length} steps from ${model}`);
+        return { steps: value.steps, llm: { model, attempts } };
+    }
+}
+
+export default ReasoningService.getInstance();
@@ -0,0 +1,140 @@
+/**
+ * Rerank Service
+ * Optional cross-encoder stage that rescores (query, chunk) pairs after hybrid fusion.
+ * Runs locally on CPU through @xenova/transformers, like the embedding model.
+ */
+
+import type { PreTrainedTokenizer, PreTrainedModel } from '@xenova/transformers';
+import { Metadata } from '../types/vectorStore';
+
+export interface RerankCandidate {
+    finalScore: number;
+    rerankScore?: number;
+    metadata: Metadata;
+}
+
+// Resolved by the timeout race, so a timeout can be told apart from a missing model (null)
+const TIMED_OUT = Symbol('timed out');
+
+class RerankService {
+    private static instance: RerankService;
+    private tokenizer: PreTrainedTokenizer | null = null;
+    private model: PreTrainedModel | null = null;
+    private loading: Promise<boolean> | null = null;
+    private unavailable = false;
+
+    private constructor() { }
+
+    public static getInstance(): RerankService {
+        if (!RerankService.instance) {
+            RerankService.instance = new RerankService();
+        }
+        return RerankService.instance;
+    }
+
+    public isEnabled(): boolean {
+        return process.env.RERANK_ENABLED === 'true' && !this.unavailable;
+    }
+
+    private get modelName(): string {
+        return process.env.RERANK_MODEL || 'Xenova/ms-marco-MiniLM-L-6-v2';
+    }
+
+    /**
+     * Load the cross-encoder. Resolves to false (and disables reranking) if the
+     * model can't be loaded, e.g. offline without a local copy.
+     */
+    public async init(): Promise<boolean> {
+        if (this.model && this.tokenizer) return true;
+        if (this.unavailable) return false;
+
+        if (!this.loading) {
+            this.loading = (async () => {
+                try {
+                    console.log(`Loading rerank model ${this.modelName}...`);
+                    const localOnly = process.env.RERANK_LOCAL_FILES_ONLY === 'true';
+                    const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
+                    this.tokenizer = await AutoTokenizer.from_pretrained(this.modelName, { local_files_only: localOnly });
+                    this.model = await AutoModelForSequenceClassification.from_pretrained(this.modelName, { local_files_only: localOnly });
+                    console.log('Rerank model loaded.');
+                    return true;
+                } catch (err) {
+                    console.warn(`[Rerank] Model ${this.modelName} unavailable, reranking disabled:`, err);
+                    this.unavailable = true;
+                    return false;
+                }
+            })();
+        }
+        return this.loading;
+    }
+
+    /**
+     * Rerank the top RERANK_CANDIDATES of a list sorted by fused score, in place. Sets
+     * rerankScore (0..1), blends it into finalScore with RERANK_WEIGHT and reorders that
+     * pool; the unscored tail stays behind it, since its fused scores aren't comparable
+     * with blended ones. Leaves the list untouched if the model is missing or scoring
+     * exceeds RERANK_TIMEOUT_MS.
+     */
+    public async rerank<T extends RerankCandidate>(query: string, candidates: T[]): Promise<T[]> {
+        if (!this.isEnabled() || candidates.length === 0) return candidates;
+
+        const budget = parseInt(process.env.RERANK_CANDIDATES || '20', 10);
+        const timeoutMs = parseInt(process.env.RERANK_TIMEOUT_MS || '2000', 10);
+        const weight = parseFloat(process.env.RERANK_WEIGHT || '0.5');
+
+        const pool = candidates.slice(0, budget);
+        const startTime = Date.now();
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+            timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs);
+        });
+
+        try {
+            const scores = await Promise.race([this.score(query, pool.map(c => this.getText(c))), timeout]);
+            if (scores === TIMED_OUT) {
+                console.warn(`[Rerank] Timed out after ${timeoutMs}ms, keeping fused order`);
+                return candidates;
+            }
+            if (!scores) {
+                console.warn('[Rerank] Model unavailable, keeping fused order');
+                return candidates;
+            }
+
+            pool.forEach((c, i) => {
+                c.rerankScore = scores[i];
+                c.finalScore = (1 - weight) * c.finalScore + weight * scores[i];
+            });
+            pool.sort((a, b) => b.finalScore - a.finalScore);
+            candidates.splice(0, pool.length, ...pool);
+            console.log(`[Rerank] Scored ${pool.length} candidates in ${Date.now() - startTime}ms`);
+        } catch (err) {
+            console.error('[Rerank] Scoring failed, keeping fused order:', err);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        return candidates;
+    }
+
+    private async score(query: string, texts: string[]): Promise<number[] | null> {
+        if (!(await this.init()) || !this.tokenizer || !this.model) return null;
+
+        const inputs = this.tokenizer(new Array(texts.length).fill(query), {
+            text_pair: texts,
+            padding: true,
+            truncation: true,
+        });
+        const { logits } = await this.model(inputs);
+
+        // One relevance logit per pair; squash to 0..1 so it blends with fused scores
+        return Array.from(logits.data as Float32Array).map(logit => 1 / (1 + Math.exp(-logit)));
+    }
+
+    private getText(candidate: RerankCandidate): string {
+        const { text, title } = candidate.metadata || {};
+        return [title, text].filter(Boolean).join('\n');
+    }
+}
+
+export default RerankService.getInstance();
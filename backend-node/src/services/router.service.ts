@@ -0,0 +1,148 @@
+/**
+ * Mode Router
+ * Decides whether a message should be answered from the knowledge base.
+ * Combines whole-word trigger matches with embedding similarity to labelled
+ * example utterances; triggers, examples and thresholds come from config/router.json
+ * (or ROUTER_CONFIG).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import embeddingService from './embedding.service';
+import { cosineSimilarity } from '../utils/vectorMath';
+import { wordPattern } from '../utils/keywords';
+import { ChatMode, RouteDecision, RouterConfig } from '../types/router';
+
+// Ties go to the first mode listed, so general wins when nothing stands out
+const MODES: ChatMode[] = ['general', 'rag_strong', 'rag_weak'];
+
+class RouterService {
+    private static instance: RouterService;
+    private config: RouterConfig | null = null;
+    private triggerPatterns = new Map<ChatMode, { trigger: string; pattern: RegExp }[]>();
+    private exampleEmbeddings: Promise<Record<ChatMode, number[][]>> | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): RouterService {
+        if (!RouterService.instance) {
+            RouterService.instance = new RouterService();
+        }
+        return RouterService.instance;
+    }
+
+    public getConfig(): RouterConfig {
+        if (!this.config) {
+            const configPath = process.env.ROUTER_CONFIG || path.resolve(__dirname, '../../config/router.json');
+            const config: RouterConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+
+            for (const mode of MODES) {
+                if (!config.modes?.[mode]) throw new Error(`Router config ${configPath} is missing mode "${mode}"`);
+                this.triggerPatterns.set(mode, (config.modes[mode].triggers || []).map(trigger => ({
+                    trigger,
+                    pattern: wordPattern(trigger),
+                })));
+            }
+
+            console.log(`[Router] Loaded ${configPath}`);
+            this.config = config;
+        }
+        return this.config;
+    }
+
+    /**
+     * Retrieval score a mode needs before the knowledge base is trusted to answer
+     */
+    public getRetrievalThresholds(): RouterConfig['retrieval_thresholds'] {
+        return this.getConfig().retrieval_thresholds;
+    }
+
+    public async route(message: string): Promise<RouteDecision> {
+        const config = this.getConfig();
+
+        const hits = {} as Record<ChatMode, string[]>;
+        for (const mode of MODES) {
+            hits[mode] = this.triggerPatterns.get(mode)!.filter(t => t.pattern.test(message)).map(t => t.trigger);
+        }
+
+        // Without embeddings the router degrades to triggers alone
+        const similarity = { general: 0, rag_strong: 0, rag_weak: 0 };
+        try {
+            const [embedding, examples] = await Promise.all([
+                embeddingService.generateEmbedding(message),
+                this.getExampleEmbeddings(),
+            ]);
+            for (const mode of MODES) {
+                similarity[mode] = Math.max(0, ...examples[mode].map(example => cosineSimilarity(embedding, example)));
+            }
+        } catch (error) {
+            console.error('[Router] Example similarity unavailable, routing on triggers only:', error);
+        }
+
+        const scores = {} as Record<ChatMode, number>;
+        for (const mode of MODES) {
+            scores[mode] = similarity[mode] + (hits[mode].length > 0 ? config.trigger_boost[mode] || 0 : 0);
+        }
+
+        // A RAG mode needs either a trigger or an example that is genuinely close
+        const eligible = MODES.filter(mode =>
+            mode === 'general' || hits[mode].length > 0 || similarity[mode] >= config.min_similarity
+        );
+        const mode = eligible.reduce((best, m) => scores[m] > scores[best] ? m : best, 'general' as ChatMode);
+
+        return {
+            mode,
+            confidence: Number(softmax(scores, config.temperature)[mode].toFixed(3)),
+            scores: roundScores(scores),
+            triggers: MODES.flatMap(m => hits[m]),
+        };
+    }
+
+    /**
+     * A decision the client made (e.g. search mode always goes to the knowledge base)
+     */
+    public force(mode: ChatMode): RouteDecision {
+        return {
+            mode,
+            confidence: 1,
+            scores: { general: 0, rag_strong: 0, rag_weak: 0, [mode]: 1 },
+            triggers: [],
+            forced: true,
+        };
+    }
+
+    /**
+     * Embedded once on first use
+     */
+    private getExampleEmbeddings(): Promise<Record<ChatMode, number[][]>> {
+        if (!this.exampleEmbeddings) {
+            const config = this.getConfig();
+            this.exampleEmbeddings = (async () => {
+                const embedded = {} as Record<ChatMode, number[][]>;
+                for (const mode of MODES) {
+                    embedded[mode] = [];
+                    for (const example of config.modes[mode].examples || []) {
+                        embedded[mode].push(await embeddingService.generateEmbedding(example));
+                    }
+                }
+                return embedded;
+            })();
+            // Let a failed load be retried on the next message
+            this.exampleEmbeddings.catch(() => { this.exampleEmbeddings = null; });
+        }
+        return this.exampleEmbeddings;
+    }
+}
+
+function softmax(scores: Record<ChatMode, number>, temperature: number): Record<ChatMode, number> {
+    const max = Math.max(...MODES.map(m => scores[m]));
+    const exps = MODES.map(m => Math.exp((scores[m] - max) / temperature));
+    const total = exps.reduce((sum, e) => sum + e, 0);
+    return Object.fromEntries(MODES.map((m, i) => [m, exps[i] / total])) as Record<ChatMode, number>;
+}
+
+function roundScores(scores: Record<ChatMode, number>): Record<ChatMode, number> {
+    return Object.fromEntries(MODES.map(m => [m, Number(scores[m].toFixed(3))])) as Record<ChatMode, number>;
+}
+
+export default RouterService.getInstance();
@@ -0,0 +1,34 @@
+/**
+ * Vector Store Selection
+ * Picks the vector index backend from VECTOR_STORE ('pinecone' | 'local')
+ */
+
+import { VectorStore } from '../types/vectorStore';
+import pineconeService from './pinecone.service';
+import localVectorService from './localVector.service';
+
+const STORES: Record<string, VectorStore> = {
+    pinecone: pineconeService,
+    local: localVectorService,
+};
+
+let logged = false;
+
+/**
+ * Resolved lazily so that env loaded by dotenv after imports is respected
+ */
+export function getVectorStore(): VectorStore {
+    const name = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+    const store = STORES[name];
+
+    if (!store) {
+        throw new Error(`Unknown VECTOR_STORE "${name}" (expected ${Object.keys(STORES).join(' or ')})`);
+    }
+
+    if (!logged) {
+        console.log(`[VectorStore] Using ${store.name} backend`);
+        logged = true;
+    }
+
+    return store;
+}
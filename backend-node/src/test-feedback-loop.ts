@@ -2,7 +2,9 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { initDb } from './utils/db';
+import { flushWrites } from './utils/writeQueue';
 import feedbackService from './services/feedback.service';
+import correctionService from './services/correction.service';
 import hybridService from './services/hybrid.service';
 import multiHopService from './services/multihop.service';
 import { v4 as uuidv4 } from 'uuid';
@@ -22,6 +24,7 @@ async function main() {
     console.log("\n--- TEST 1: Baseline Search ---");
     // We use MultiHop to ensure everything is logged
     const result1 = await multiHopService.performMultiHopSearch(TEST_QUERY);
+    await flushWrites(); // Hop logs are written in the background
 
     if (result1.results.length === 0) {
         console.warn("No results found. Cannot proceed with feedback test effectively.");
@@ -85,8 +88,12 @@ async function main() {
     console.log("\n--- TEST 4: Correction Injection ---");
     const correctionText = "The Spline Protocol is a mechanism for interpolating curves in 3D space.";
 
-    // Submit correction on the same bad response
+    // Submit correction on the same bad response, then approve it from the review queue
     await feedbackService.submitFeedback(responseId, -1, correctionText);
+    const [pending] = await correctionService.listCorrections('pending');
+    if (pending) {
+        await correctionService.approveCorrection(pending.id);
+    }
 
     // Wait for embedding upsert
     await new Promise(r => setTimeout(r, 2000));
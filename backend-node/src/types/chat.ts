@@ -1,24 +1,97 @@
+import { FusionRequest } from './fusion';
+import { LlmCallInfo } from './llm';
+import { RouteDecision } from './router';
+
+export interface Citation {
+    index: number; // 1-based position in the response's sources list
+    title: string;
+    source: string;
+    snippet: string;
+    score: number;
+}
+
 export interface Block {
     type: string;
     content?: string;
     items?: string[]; // for lists
     language?: string; // for code blocks
+    citations?: Citation[]; // Sources referenced by [n] markers in this block
 }
 
 export interface Source {
+    index: number;
     title: string;
     source: string;
     score: number;
+    semanticScore?: number;
+    keywordScore?: number;
+    rerankScore?: number;
+    snippet?: string;
 }
 
+/**
+ * Interaction modes offered by the client's prompt box
+ * - search: always answer from the knowledge base
+ * - think: run a reasoning pass before answering
+ * - canvas: answer with a long-form document
+ */
+export type InteractionMode = 'default' | 'think' | 'search' | 'canvas';
+
 export interface ChatRequest {
     message: string;
     conversation_id?: string;
+    fusion?: FusionRequest;  // Override the hybrid search fusion strategy for this request
+    mode?: InteractionMode;  // Defaults to 'default'
+    model?: string;          // Must be one of the server's allowed models
+    thinking?: boolean;      // Same as mode 'think', combinable with the other modes
+}
+
+export type DropReason = 'below_threshold' | 'no_text' | 'duplicate' | 'token_budget';
+
+export interface DroppedChunk {
+    id: string;
+    title: string;
+    score: number;
+    reason: DropReason;
+    duplicate_of?: string; // Set when reason is 'duplicate'
+}
+
+export interface ContextReport {
+    token_count: number;
+    token_budget: number;
+    included: string[];
+    dropped: DroppedChunk[];
+}
+
+export interface ReusedTemplateInfo {
+    query_id: string;   // Past query whose hop decomposition was replayed
+    query_text: string;
+    similarity: number;
+}
+
+export interface QueryRewriteInfo {
+    original: string;   // The user's follow-up as sent
+    standalone: string; // What mode detection and retrieval used instead
+    cached: boolean;
+}
+
+export interface ResponseMetadata {
+    context?: ContextReport;
+    template?: ReusedTemplateInfo;
+    timings?: Record<string, number>; // Milliseconds per pipeline stage
+    llm?: LlmCallInfo;                // Model that answered and the attempts it took
+    query_rewrite?: QueryRewriteInfo; // Set when a follow-up was rewritten before retrieval
+    route?: RouteDecision;            // How the message was routed (general vs knowledge base)
+    interaction_mode?: InteractionMode;
+    reasoning_llm?: LlmCallInfo;      // Model behind the reasoning pass (think mode)
 }
 
 export interface ChatResponse {
     blocks: Block[];
     sources?: Source[];
-    mode: 'general' | 'rag' | 'rag_strong' | 'rag_weak';
+    mode: 'general' | 'rag' | 'fallback' | 'rag_strong' | 'rag_weak';
     request_id: string;
+    response_id?: string;
+    reasoning?: string[]; // Steps of the reasoning pass (think mode)
+    metadata?: ResponseMetadata;
 }
@@ -0,0 +1,13 @@
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected' | 'retracted';
+
+export interface CorrectionRecord {
+    id: string;
+    response_id: string;
+    text: string;
+    status: CorrectionStatus;
+    vector_id: string | null;   // Set while the correction is indexed (approved)
+    review_note: string | null;
+    created_at: number;
+    updated_at: number;
+    reviewed_at: number | null;
+}
@@ -0,0 +1,24 @@
+export type DocumentFormat = 'markdown' | 'text' | 'html';
+
+export interface IngestDocumentRequest {
+    content: string;
+    source?: string;   // File path or URL; used to derive a stable document ID
+    title?: string;
+    format?: DocumentFormat;
+    tags?: string[];
+    id?: string;       // Explicit document ID (overrides the derived one)
+    namespace?: string; // Scope the chunks to one conversation (attachments) instead of the shared index
+}
+
+export interface DocumentRecord {
+    id: string;
+    title: string;
+    source: string;
+    format: DocumentFormat;
+    tags: string[];
+    namespace: string | null;
+    chunk_count: number;
+    char_count: number;
+    created_at: number;
+    updated_at: number;
+}
@@ -0,0 +1,32 @@
+export type FusionStrategyName = 'weighted' | 'minmax' | 'rrf';
+
+export interface FusionWeights {
+    alpha: number; // Semantic
+    beta: number;  // Keyword
+    gamma: number; // Feedback
+}
+
+export interface FusionOptions {
+    strategy: FusionStrategyName;
+    weights: FusionWeights;
+    rrfK: number;      // RRF rank offset
+    bothBoost: number; // Weighted-linear bonus for documents found by both retrievers
+}
+
+/**
+ * 1-based rank of a document within each signal; null when the signal did not score it
+ */
+export interface SignalRanks {
+    semantic: number | null;
+    keyword: number | null;
+    feedback: number | null;
+}
+
+/**
+ * Per-request overrides, as accepted by the chat API
+ */
+export interface FusionRequest {
+    strategy?: FusionStrategyName;
+    weights?: Partial<FusionWeights>;
+    rrf_k?: number;
+}
@@ -0,0 +1,66 @@
+export interface ConversationTurn {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmRequest {
+    systemPrompt: string;
+    userMessage: string;
+    conversationHistory: ConversationTurn[];
+    temperature: number;
+    model?: string;       // Provider default when unset
+    signal?: AbortSignal; // Aborting cancels the upstream request
+}
+
+/**
+ * Per-call options for LlmService
+ */
+export interface LlmCallOptions {
+    signal?: AbortSignal;
+    model?: string; // Tried first, ahead of LLM_FALLBACK_MODELS; must be allowlisted
+}
+
+/**
+ * Common interface for chat model backends (OpenAI-compatible endpoints, scripted mock)
+ */
+export interface LlmProvider {
+    readonly name: string;
+    getDefaultModel(): string;
+    /** Whether completeJson() can ask the endpoint for JSON output (e.g. OpenAI `response_format`) */
+    supportsJsonMode(): boolean;
+    complete(request: LlmRequest): Promise<string>;
+    stream(request: LlmRequest): AsyncGenerator<string, void, unknown>;
+    /** Like complete(), but asks the model for a single JSON object */
+    completeJson(request: LlmRequest): Promise<string>;
+}
+
+export interface LlmAttempt {
+    model: string;
+    attempt: number;      // 1-based, per model
+    ok: boolean;
+    duration_ms: number;
+    status?: number;      // HTTP status of a failed attempt, when there was one
+    error?: string;
+}
+
+/**
+ * Which model finally answered, and every attempt it took to get there
+ */
+export interface LlmCallInfo {
+    model: string;
+    attempts: LlmAttempt[];
+}
+
+export interface LlmResult extends LlmCallInfo {
+    content: string;
+}
+
+export interface StructuredLlmResult<T> extends LlmResult {
+    value: T;           // Parsed and validated output
+    repaired: boolean;  // Whether it took the repair re-prompt to get valid output
+}
@@ -0,0 +1,31 @@
+export interface ModelCapabilities {
+    streaming: boolean;
+    json_mode: boolean; // Replies can be requested as a JSON object (OpenAI `response_format`)
+}
+
+/**
+ * An entry of config/models.json; only `id` is required
+ */
+export interface ModelCatalogueEntry {
+    id: string;                      // Model name as sent to the provider
+    name?: string;
+    description?: string;
+    context_window?: number | null;  // Tokens
+    capabilities?: Partial<ModelCapabilities>;
+}
+
+export interface ModelCatalogue {
+    models: ModelCatalogueEntry[];
+}
+
+/**
+ * A model chat requests may ask for, as returned by GET /api/models
+ */
+export interface ModelInfo {
+    id: string;
+    name: string;
+    description: string;
+    context_window: number | null;
+    capabilities: ModelCapabilities;
+    default: boolean;                // Used when a request names no model
+}
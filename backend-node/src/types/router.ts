@@ -0,0 +1,25 @@
+export type ChatMode = 'general' | 'rag_strong' | 'rag_weak';
+
+export interface ModeConfig {
+    triggers: string[]; // Whole words or phrases, matched case-insensitively
+    examples: string[]; // Labelled example utterances for embedding similarity
+}
+
+/**
+ * Shape of config/router.json
+ */
+export interface RouterConfig {
+    modes: Record<ChatMode, ModeConfig>;
+    trigger_boost: Partial<Record<ChatMode, number>>; // Added to a mode's similarity when one of its triggers matches
+    min_similarity: number;                           // Below this, a RAG mode can't win on examples alone
+    temperature: number;                              // Softmax temperature turning scores into a confidence
+    retrieval_thresholds: Record<Exclude<ChatMode, 'general'>, number>; // Retrieval score needed to answer from the knowledge base
+}
+
+export interface RouteDecision {
+    mode: ChatMode;
+    confidence: number;                 // 0-1, share of the softmax over mode scores
+    scores: Record<ChatMode, number>;   // Example similarity plus trigger boost, per mode
+    triggers: string[];                 // Triggers found in the message
+    forced?: boolean;                   // Set by the client's interaction mode (search) rather than scored
+}
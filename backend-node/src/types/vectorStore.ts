@@ -0,0 +1,46 @@
+// Value types Pinecone accepts in metadata
+export type MetadataValue = string | number | boolean | string[];
+
+/**
+ * Metadata stored with a vector (text, title, source, tags, namespace, ...)
+ */
+export type Metadata = Record<string, MetadataValue>;
+
+export interface VectorRecord {
+    id: string;
+    values: number[];
+    metadata?: Metadata;
+}
+
+export interface Match {
+    id: string;
+    score: number;
+    values?: number[]; // Only populated when includeValues is set
+    metadata?: Metadata;
+}
+
+/**
+ * Pinecone-style metadata filter, e.g. { type: 'document', tags: { $in: ['orion'] } }.
+ * Supported operators: $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte, $exists, $and, $or
+ */
+export type MetadataFilter = Record<string, unknown>;
+
+export interface VectorQueryOptions {
+    topK: number;
+    filter?: MetadataFilter;
+    includeValues?: boolean;
+    namespace?: string; // Searched instead of the shared (default) namespace
+}
+
+/**
+ * Common interface for vector index backends (Pinecone, local SQLite).
+ * Records live in a namespace: the shared knowledge base when none is given,
+ * or a separate one (e.g. a conversation's attachments).
+ */
+export interface VectorStore {
+    readonly name: string;
+    query(vector: number[], options: VectorQueryOptions): Promise<Match[]>;
+    upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+    delete(ids: string[], namespace?: string): Promise<void>;
+    fetch(ids: string[], namespace?: string): Promise<VectorRecord[]>;
+}
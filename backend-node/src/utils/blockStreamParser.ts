@@ -0,0 +1,351 @@
+/**
+ * Incremental Block Parser
+ * Turns a streamed `{"blocks": [...]}` LLM reply into block events as the text
+ * arrives, so clients can render typed blocks progressively instead of raw JSON.
+ * Replies that turn out not to be JSON are streamed as a single paragraph.
+ */
+
+import { RawBlock } from './structuredOutput';
+
+export type BlockStreamEvent =
+    | { type: 'block_start'; index: number; block: { type: string; language?: string } }
+    | { type: 'block_delta'; index: number; text: string; item?: number } // `item` is set for list items
+    | { type: 'block_end'; index: number; block: RawBlock };
+
+type Frame =
+    | { kind: 'object'; key: string | null; expectKey: boolean }
+    | { kind: 'array'; index: number };
+
+// Where the string or literal currently being read belongs
+type Target =
+    | { kind: 'content' }
+    | { kind: 'item'; item: number }
+    | { kind: 'type' }
+    | { kind: 'language' }
+    | { kind: 'citation' }
+    | { kind: 'key' }
+    | { kind: 'ignored' };
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+const LITERAL_END = /[\s,}\]]/;
+
+export class BlockStreamParser {
+    private mode: 'detect' | 'json' | 'text' | 'done' = 'detect';
+    private pending = '';
+
+    private stack: Frame[] = [];
+    private inString = false;
+    private inLiteral = false;
+    private escape = false;
+    private unicode: string | null = null;
+    private target: Target = { kind: 'ignored' };
+    private buffer = ''; // Captured string/literal for non-streamed targets
+
+    private block: RawBlock | null = null;
+    private blockStarted = false;
+    private completed: RawBlock[] = [];
+
+    private events: BlockStreamEvent[] = [];
+    private delta: { index: number; text: string; item?: number } | null = null;
+    private held: { text: string; item?: number }[] = []; // Text read before the block's type
+
+    /**
+     * Blocks closed so far
+     */
+    public get blocks(): RawBlock[] {
+        return this.completed;
+    }
+
+    public push(chunk: string): BlockStreamEvent[] {
+        if (this.mode === 'detect') {
+            this.pending += chunk;
+            chunk = this.detect();
+        }
+        if (this.mode === 'json') {
+            for (const ch of chunk) this.readJson(ch);
+        } else if (this.mode === 'text' && chunk) {
+            this.appendText(chunk);
+        }
+        return this.drain();
+    }
+
+    /**
+     * Close whatever is still open (e.g. a reply cut off mid-block)
+     */
+    public end(): BlockStreamEvent[] {
+        if (this.mode === 'detect' && this.pending.trim()) {
+            this.mode = 'text';
+            this.appendText(this.pending.trim());
+        }
+        if (this.block) this.finishBlock();
+        this.mode = 'done';
+        return this.drain();
+    }
+
+    /**
+     * Decide between JSON and plain text once the first meaningful character arrives.
+     * Returns the part of the pending text that still has to be read.
+     */
+    private detect(): string {
+        let text = this.pending.trimStart();
+
+        // Skip an opening code fence line (```json)
+        if (text.startsWith('```')) {
+            const newline = text.indexOf('\n');
+            if (newline === -1) return '';
+            text = text.substring(newline + 1).trimStart();
+        }
+        if (!text || (text.length < 3 && '```'.startsWith(text))) {
+            this.pending = text;
+            return '';
+        }
+
+        this.pending = '';
+        this.mode = text.startsWith('{') ? 'json' : 'text';
+        return text;
+    }
+
+    private appendText(text: string): void {
+        if (!this.block) this.openBlock();
+        this.block!.type = 'paragraph';
+        this.block!.content = (this.block!.content || '') + text;
+        this.startBlock();
+        this.addDelta(text);
+    }
+
+    // ------------------------------------------------------------------
+    // JSON tokenizer
+    // ------------------------------------------------------------------
+
+    private readJson(ch: string): void {
+        if (this.mode !== 'json') return; // Ignore anything after the root object
+
+        if (this.inString) {
+            this.readStringChar(ch);
+            return;
+        }
+        if (this.inLiteral) {
+            if (!LITERAL_END.test(ch)) {
+                this.buffer += ch;
+                return;
+            }
+            this.endLiteral();
+        }
+
+        const top = this.stack[this.stack.length - 1];
+        switch (ch) {
+            case '{':
+                this.beginValue();
+                if (this.isBlockPosition()) this.openBlock();
+                this.stack.push({ kind: 'object', key: null, expectKey: true });
+                break;
+            case '[':
+                this.beginValue();
+                this.stack.push({ kind: 'array', index: -1 });
+                break;
+            case '}':
+            case ']':
+                this.stack.pop();
+                if (this.block && this.stack.length === 2) this.finishBlock();
+                if (this.stack.length === 0) this.mode = 'done';
+                break;
+            case ',':
+                if (top?.kind === 'object') top.expectKey = true;
+                break;
+            case '"':
+                if (top?.kind === 'object' && top.expectKey) {
+                    this.target = { kind: 'key' };
+                } else {
+                    this.beginValue();
+                    this.target = this.valueTarget();
+                }
+                this.inString = true;
+                this.buffer = '';
+                break;
+            case ':':
+                break;
+            default:
+                if (/\s/.test(ch)) break;
+                this.beginValue();
+                this.target = this.valueTarget();
+                this.inLiteral = true;
+                this.buffer = ch;
+        }
+    }
+
+    private readStringChar(ch: string): void {
+        if (this.unicode !== null) {
+            this.unicode += ch;
+            if (this.unicode.length === 4) {
+                this.appendStringText(String.fromCharCode(parseInt(this.unicode, 16) || 0xfffd));
+                this.unicode = null;
+            }
+        } else if (this.escape) {
+            this.escape = false;
+            if (ch === 'u') this.unicode = '';
+            else this.appendStringText(ESCAPES[ch] ?? ch);
+        } else if (ch === '\\') {
+            this.escape = true;
+        } else if (ch === '"') {
+            this.inString = false;
+            this.endString();
+        } else {
+            this.appendStringText(ch);
+        }
+    }
+
+    /**
+     * A value is starting: count it as the next element of an enclosing array
+     */
+    private beginValue(): void {
+        const top = this.stack[this.stack.length - 1];
+        if (top?.kind === 'array') top.index++;
+    }
+
+    /**
+     * An object opening directly inside the root "blocks" array
+     */
+    private isBlockPosition(): boolean {
+        const [root, blocks] = this.stack;
+        return this.stack.length === 2 && root.kind === 'object' && root.key === 'blocks' && blocks.kind === 'array';
+    }
+
+    private valueTarget(): Target {
+        if (!this.block) return { kind: 'ignored' };
+
+        const top = this.stack[this.stack.length - 1];
+        if (this.stack.length === 3 && top.kind === 'object') {
+            if (top.key === 'content') return { kind: 'content' };
+            if (top.key === 'type') return { kind: 'type' };
+            if (top.key === 'language') return { kind: 'language' };
+        }
+        const field = this.stack[2];
+        if (this.stack.length === 4 && top.kind === 'array' && field.kind === 'object') {
+            if (field.key === 'items') return { kind: 'item', item: top.index };
+            if (field.key === 'citations') return { kind: 'citation' };
+        }
+        return { kind: 'ignored' };
+    }
+
+    private appendStringText(text: string): void {
+        const block = this.block;
+        const target = this.target;
+
+        if (block && target.kind === 'content') {
+            block.content = (block.content || '') + text;
+        } else if (block && target.kind === 'item') {
+            block.items = block.items || [];
+            block.items[target.item] = (block.items[target.item] || '') + text;
+        } else {
+            this.buffer += text;
+            return;
+        }
+
+        const item = target.kind === 'item' ? target.item : undefined;
+        // "type" may come after the text; hold the text back until the block can be announced with it
+        if (!this.blockStarted && !block.type) {
+            this.held.push({ text, ...(item !== undefined ? { item } : {}) });
+            return;
+        }
+        this.startBlock();
+        this.addDelta(text, item);
+    }
+
+    private endString(): void {
+        const top = this.stack[this.stack.length - 1];
+        const block = this.block;
+
+        if (this.target.kind === 'key' && top?.kind === 'object') {
+            top.key = this.buffer;
+            top.expectKey = false;
+        } else if (block && this.target.kind === 'type') {
+            block.type = this.buffer;
+            this.startBlock();
+        } else if (block && this.target.kind === 'language') {
+            block.language = this.buffer;
+        } else if (block && this.target.kind === 'item') {
+            // Empty strings never produced a delta; make sure the item exists
+            block.items = block.items || [];
+            block.items[this.target.item] = block.items[this.target.item] || '';
+        } else if (block && this.target.kind === 'content') {
+            block.content = block.content || '';
+        }
+        this.target = { kind: 'ignored' };
+    }
+
+    private endLiteral(): void {
+        this.inLiteral = false;
+        if (this.block && this.target.kind === 'citation') {
+            const index = Number(this.buffer);
+            if (Number.isInteger(index)) this.block.citations = [...(this.block.citations || []), index];
+        }
+        this.target = { kind: 'ignored' };
+    }
+
+    // ------------------------------------------------------------------
+    // Block events
+    // ------------------------------------------------------------------
+
+    private openBlock(): void {
+        this.block = { type: '' };
+        this.blockStarted = false;
+    }
+
+    /**
+     * Announce the block once its type is known, or when it closes without one (assumed paragraph)
+     */
+    private startBlock(): void {
+        if (!this.block || this.blockStarted) return;
+        this.blockStarted = true;
+        if (!this.block.type) this.block.type = 'paragraph';
+
+        this.flushDelta();
+        this.events.push({
+            type: 'block_start',
+            index: this.completed.length,
+            block: { type: this.block.type, ...(this.block.language ? { language: this.block.language } : {}) },
+        });
+
+        const held = this.held;
+        this.held = [];
+        for (const { text, item } of held) this.addDelta(text, item);
+    }
+
+    private finishBlock(): void {
+        this.startBlock();
+        const block = this.block!;
+        this.block = null;
+
+        if ((block.type === 'list' || block.type === 'numbered_list') && !block.items) block.items = [];
+
+        this.flushDelta();
+        this.events.push({ type: 'block_end', index: this.completed.length, block });
+        this.completed.push(block);
+    }
+
+    /**
+     * Consecutive text for the same field is merged into one delta per push
+     */
+    private addDelta(text: string, item?: number): void {
+        const index = this.completed.length;
+        if (this.delta && this.delta.index === index && this.delta.item === item) {
+            this.delta.text += text;
+            return;
+        }
+        this.flushDelta();
+        this.delta = { index, text, ...(item !== undefined ? { item } : {}) };
+    }
+
+    private flushDelta(): void {
+        if (!this.delta) return;
+        this.events.push({ type: 'block_delta', ...this.delta });
+        this.delta = null;
+    }
+
+    private drain(): BlockStreamEvent[] {
+        this.flushDelta();
+        const events = this.events;
+        this.events = [];
+        return events;
+    }
+}
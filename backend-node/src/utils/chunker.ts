@@ -0,0 +1,200 @@
+/**
+ * Document Chunking Utility
+ * Splits Markdown, plain text and HTML into overlapping chunks for embedding
+ */
+
+import { DocumentFormat } from '../types/document';
+
+export interface Chunk {
+    text: string;
+    index: number;
+    section?: string; // Heading path, e.g. "Orion > Architecture"
+}
+
+export interface ChunkOptions {
+    chunkSize: number; // Target chunk size in characters
+    overlap: number;   // Characters carried over from the previous chunk
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+    chunkSize: 1200,
+    overlap: 200,
+};
+
+/**
+ * Split a document into chunks according to its format
+ */
+export function chunkDocument(
+    content: string,
+    format: DocumentFormat,
+    options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Chunk[] {
+    if (format === 'html') {
+        return chunkMarkdown(htmlToMarkdown(content), options);
+    }
+    if (format === 'markdown') {
+        return chunkMarkdown(content, options);
+    }
+    return chunkText(content, options).map((text, index) => ({ text, index }));
+}
+
+/**
+ * Paragraph-aware sliding window over plain text
+ */
+export function chunkText(text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): string[] {
+    const units = splitIntoUnits(text, options.chunkSize);
+    const chunks: string[] = [];
+
+    let current = '';
+    let carriedLength = 0; // Length of the overlap prefix in `current`
+
+    for (const unit of units) {
+        if (current.length > carriedLength && current.length + unit.length + 2 > options.chunkSize) {
+            chunks.push(current.trim());
+            current = overlapTail(current, options.overlap);
+            carriedLength = current.length;
+        }
+        current = current ? `${current}\n\n${unit}` : unit;
+    }
+
+    if (current.length > carriedLength && current.trim()) {
+        chunks.push(current.trim());
+    }
+
+    return chunks;
+}
+
+/**
+ * Heading-aware chunking: each section is chunked separately and
+ * every chunk is prefixed with the heading it belongs to
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): Chunk[] {
+    const chunks: Chunk[] = [];
+
+    for (const section of splitMarkdownSections(markdown)) {
+        const heading = section.path[section.path.length - 1];
+        const sectionName = section.path.join(' > ') || undefined;
+
+        for (const text of chunkText(section.body, options)) {
+            chunks.push({
+                text: heading ? `${heading}\n\n${text}` : text,
+                index: chunks.length,
+                section: sectionName,
+            });
+        }
+    }
+
+    return chunks;
+}
+
+interface MarkdownSection {
+    path: string[];
+    body: string;
+}
+
+function splitMarkdownSections(markdown: string): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    const headingStack: { level: number; title: string }[] = [];
+    let buffer: string[] = [];
+    let inCodeFence = false;
+
+    const flush = () => {
+        const body = buffer.join('\n').trim();
+        if (body) {
+            sections.push({ path: headingStack.map(h => h.title), body });
+        }
+        buffer = [];
+    };
+
+    for (const line of markdown.split(/\r?\n/)) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeFence = !inCodeFence;
+        }
+
+        const match = !inCodeFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (match) {
+            flush();
+            const level = match[1].length;
+            while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+                headingStack.pop();
+            }
+            headingStack.push({ level, title: match[2] });
+            continue;
+        }
+
+        buffer.push(line);
+    }
+    flush();
+
+    return sections;
+}
+
+/**
+ * Break text into paragraphs, hard-splitting any paragraph longer than maxSize at whitespace
+ */
+function splitIntoUnits(text: string, maxSize: number): string[] {
+    const units: string[] = [];
+
+    for (const paragraph of text.split(/\n\s*\n/)) {
+        let remaining = paragraph.trim();
+        while (remaining.length > maxSize) {
+            let cut = remaining.lastIndexOf(' ', maxSize);
+            if (cut <= 0) cut = maxSize;
+            units.push(remaining.substring(0, cut).trim());
+            remaining = remaining.substring(cut).trim();
+        }
+        if (remaining) units.push(remaining);
+    }
+
+    return units;
+}
+
+function overlapTail(text: string, overlap: number): string {
+    if (overlap <= 0) return '';
+    if (text.length <= overlap) return text;
+    const tail = text.substring(text.length - overlap);
+    // Start the overlap on a word boundary
+    const firstSpace = tail.search(/\s/);
+    return (firstSpace >= 0 ? tail.substring(firstSpace) : tail).trim();
+}
+
+/**
+ * Minimal HTML to Markdown conversion: keeps headings and list items, drops all other markup
+ */
+export function htmlToMarkdown(html: string): string {
+    return html
+        .replace(/<(script|style|noscript|head|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) => `\n\n${'#'.repeat(Number(level))} ${stripTags(inner).trim()}\n\n`)
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|article|ul|ol|table|tr|pre|blockquote)>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function stripTags(html: string): string {
+    return html.replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Extract a document title from its content, if it has one
+ */
+export function extractTitle(content: string, format: DocumentFormat): string | null {
+    if (format === 'html') {
+        const match = content.match(/<title[^>]*>([\s\S]*?)<\/title>/i) || content.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+        return match ? stripTags(match[1]).trim() || null : null;
+    }
+    if (format === 'markdown') {
+        const match = content.match(/^#\s+(.+)$/m);
+        return match ? match[1].trim() : null;
+    }
+    return null;
+}
@@ -0,0 +1,29 @@
+/**
+ * Concurrency helpers
+ */
+
+/**
+ * Map over items running at most `limit` calls of `fn` at once.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    // A limit that isn't a positive number (e.g. NaN from a bad env value) would start no workers at all
+    const size = Number.isFinite(limit) && limit >= 1 ? Math.floor(limit) : 1;
+    const workers = Array.from({ length: Math.max(1, Math.min(size, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
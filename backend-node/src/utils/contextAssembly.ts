@@ -0,0 +1,190 @@
+/**
+ * Context Assembly
+ * Turns ranked retrieval results into the CONTEXT block for the LLM:
+ * deduplicates overlapping chunks, orders them with Maximal Marginal Relevance
+ * and packs them into a token budget, recording every chunk left out.
+ */
+
+import { ContextReport, DroppedChunk } from '../types/chat';
+import { SignalRanks } from '../types/fusion';
+import { cosineSimilarity } from './vectorMath';
+import { formatContextPassage } from './prompts';
+
+export interface ContextCandidate {
+    id?: string;
+    finalScore: number;
+    semanticScore: number;
+    keywordScore: number;
+    metadata: { text?: string; title?: string; source?: string }; // The fields assembly reads
+    ranks?: SignalRanks;
+    rerankScore?: number;
+    embedding?: number[];
+}
+
+export interface ContextAssemblyOptions {
+    threshold: number;
+    tokenBudget: number;        // Max estimated tokens of context
+    mmrLambda: number;          // 1 = pure relevance, 0 = pure diversity
+    duplicateThreshold: number; // Similarity above which two chunks count as duplicates
+}
+
+/**
+ * A passage that made it into the context, before it is numbered as a Source
+ */
+export interface ContextSource {
+    title: string;
+    source: string;
+    score: number;
+    semanticScore: number;
+    keywordScore: number;
+    ranks?: SignalRanks;
+    rerankScore?: number;
+    text?: string;
+}
+
+export interface AssembledContext {
+    context: string;
+    sources: ContextSource[];
+    report: ContextReport;
+}
+
+const SEPARATOR = '\n\n---\n\n';
+
+export function getContextAssemblyOptions(threshold: number): ContextAssemblyOptions {
+    return {
+        threshold,
+        tokenBudget: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '3000', 10),
+        mmrLambda: parseFloat(process.env.MMR_LAMBDA || '0.7'),
+        duplicateThreshold: parseFloat(process.env.CONTEXT_DUPLICATE_THRESHOLD || '0.95'),
+    };
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function assembleContext(results: ContextCandidate[], options: ContextAssemblyOptions): AssembledContext {
+    const dropped: DroppedChunk[] = [];
+    const drop = (r: ContextCandidate, reason: DroppedChunk['reason'], duplicateOf?: string) => {
+        dropped.push({
+            id: r.id || 'unknown',
+            title: r.metadata?.title || 'Unknown',
+            score: Number(r.finalScore.toFixed(3)),
+            reason,
+            ...(duplicateOf ? { duplicate_of: duplicateOf } : {}),
+        });
+    };
+
+    // 1. Threshold and empty chunks
+    const eligible: ContextCandidate[] = [];
+    for (const r of results) {
+        if (r.finalScore < options.threshold) drop(r, 'below_threshold');
+        else if (!r.metadata?.text) drop(r, 'no_text');
+        else eligible.push(r);
+    }
+    eligible.sort((a, b) => b.finalScore - a.finalScore);
+
+    // 2. Near-duplicates: keep the higher scoring copy
+    const unique: ContextCandidate[] = [];
+    for (const r of eligible) {
+        const original = unique.find(u => similarity(u, r) >= options.duplicateThreshold);
+        if (original) drop(r, 'duplicate', original.id);
+        else unique.push(r);
+    }
+
+    // 3. MMR ordering, then 4. pack numbered passages into the token budget
+    const selected: ContextCandidate[] = [];
+    const passages: string[] = [];
+    let tokenCount = 0;
+
+    for (const r of mmrOrder(unique, options.mmrLambda)) {
+        const passage = formatContextPassage(selected.length + 1, r.metadata.title || 'Unknown', r.metadata.text || '');
+        const cost = estimateTokens(passage) + (selected.length > 0 ? estimateTokens(SEPARATOR) : 0);
+        if (tokenCount + cost > options.tokenBudget) {
+            drop(r, 'token_budget');
+            continue;
+        }
+        selected.push(r);
+        passages.push(passage);
+        tokenCount += cost;
+    }
+
+    const context = passages.join(SEPARATOR);
+    const sources = selected.map(r => ({
+        title: r.metadata.title || 'Unknown',
+        source: r.metadata.source || 'Unknown',
+        score: Number(r.finalScore.toFixed(3)),
+        semanticScore: Number(r.semanticScore.toFixed(3)),
+        keywordScore: Number(r.keywordScore.toFixed(3)),
+        ranks: r.ranks,
+        ...(r.rerankScore !== undefined ? { rerankScore: Number(r.rerankScore.toFixed(3)) } : {}),
+        text: r.metadata.text,
+    }));
+
+    return {
+        context,
+        sources,
+        report: {
+            token_count: tokenCount,
+            token_budget: options.tokenBudget,
+            included: selected.map(r => r.id || 'unknown'),
+            dropped,
+        },
+    };
+}
+
+/**
+ * Greedy Maximal Marginal Relevance:
+ * pick argmax λ·relevance − (1 − λ)·max similarity to already picked chunks
+ */
+function mmrOrder(candidates: ContextCandidate[], lambda: number): ContextCandidate[] {
+    if (candidates.length <= 1) return candidates;
+
+    const maxScore = Math.max(...candidates.map(c => c.finalScore)) || 1;
+    const remaining = [...candidates];
+    const ordered: ContextCandidate[] = [];
+
+    while (remaining.length > 0) {
+        let bestIndex = 0;
+        let bestValue = -Infinity;
+
+        remaining.forEach((c, i) => {
+            const relevance = c.finalScore / maxScore;
+            const redundancy = ordered.length > 0 ? Math.max(...ordered.map(o => similarity(o, c))) : 0;
+            const value = lambda * relevance - (1 - lambda) * redundancy;
+            if (value > bestValue) {
+                bestValue = value;
+                bestIndex = i;
+            }
+        });
+
+        ordered.push(remaining.splice(bestIndex, 1)[0]);
+    }
+
+    return ordered;
+}
+
+/**
+ * Embedding cosine when both chunks carry vectors, word-set Jaccard otherwise
+ */
+function similarity(a: ContextCandidate, b: ContextCandidate): number {
+    if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+        return cosineSimilarity(a.embedding, b.embedding);
+    }
+    return jaccard(a.metadata.text || '', b.metadata.text || '');
+}
+
+function jaccard(a: string, b: string): number {
+    const wordsA = new Set(a.toLowerCase().split(/\W+/).filter(Boolean));
+    const wordsB = new Set(b.toLowerCase().split(/\W+/).filter(Boolean));
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    let intersection = 0;
+    for (const w of wordsA) {
+        if (wordsB.has(w)) intersection++;
+    }
+    return intersection / (wordsA.size + wordsB.size - intersection);
+}
@@ -1,53 +1,153 @@
 /**
  * Context Window Manager
- * 
- * Maintains a bounded rolling context window per conversation_id.
- * Stores the last 3-4 conversational turns (6-8 messages max).
+ *
+ * Persists each conversation's turns in SQLite and serves them back as LLM history,
+ * bounded by a token budget. Turns folded into the running summary (see
+ * memory.service.ts) are replaced by that summary, which callers add to the system prompt.
  */
 
+import { get, all, runInTransaction } from './db';
+import { estimateTokens } from './contextAssembly';
+import { ConversationTurn } from '../types/llm';
+
 export interface ContextMessage {
+    id: number;
     role: 'user' | 'assistant';
     content: string;
+    tokens: number;
+    summarized: boolean;
+    created_at: number;
+}
+
+export interface ContextWindow {
+    summary: string | null; // Running summary of the turns no longer in `turns`
+    turns: ConversationTurn[];
+}
+
+export interface ConversationSummary {
+    summary: string;
+    tokens: number;
+    updated_at: number;
 }
 
-// In-memory store keyed by conversation_id
-const contextStore = new Map<string, ContextMessage[]>();
+export function getMemoryTokenBudget(): number {
+    return parseInt(process.env.MEMORY_TOKEN_BUDGET || '1500', 10);
+}
 
-// Max messages to keep (4 turns = 8 messages)
-const MAX_MESSAGES = 8;
+function toMessage(row: Omit<ContextMessage, 'summarized'> & { summarized: number }): ContextMessage {
+    return { ...row, summarized: row.summarized === 1 };
+}
 
 /**
- * Get the current context window for a conversation.
- * Returns an empty array if no context exists.
+ * History for the next LLM call: the running summary (if any, capped at
+ * MEMORY_SUMMARY_SHARE of the budget), and as many of the most recent unsummarized
+ * exchanges as fit in the rest. An exchange is a user message with the replies to it,
+ * so an answer is never sent without its question.
  */
-export function getContextWindow(conversationId: string): ContextMessage[] {
-    return contextStore.get(conversationId) || [];
+export async function getContextWindow(conversationId: string, tokenBudget = getMemoryTokenBudget()): Promise<ContextWindow> {
+    const stored = await getSummary(conversationId);
+    const messages = await getUnsummarizedMessages(conversationId);
+
+    const summaryBudget = Math.floor(tokenBudget * parseFloat(process.env.MEMORY_SUMMARY_SHARE || '0.5'));
+    const summary = stored && summaryBudget > 0 ? truncateToTokens(stored.summary, summaryBudget) : null;
+
+    let remaining = tokenBudget - (summary ? estimateTokens(summary) : 0);
+    const turns: ConversationTurn[] = [];
+    const exchanges = groupExchanges(messages);
+    for (let i = exchanges.length - 1; i >= 0; i--) {
+        const tokens = exchanges[i].reduce((sum, m) => sum + m.tokens, 0);
+        if (tokens > remaining) break;
+        remaining -= tokens;
+        turns.unshift(...exchanges[i].map(m => ({ role: m.role, content: m.content })));
+    }
+
+    return { summary, turns };
 }
 
 /**
- * Append a message to the context window.
- * Automatically trims oldest messages if window exceeds MAX_MESSAGES.
+ * Split messages into exchanges. Replies whose user message was already summarized are left out.
  */
-export function appendToContextWindow(
+function groupExchanges(messages: ContextMessage[]): ContextMessage[][] {
+    const exchanges: ContextMessage[][] = [];
+    for (const message of messages) {
+        if (message.role === 'user') exchanges.push([message]);
+        else if (exchanges.length > 0) exchanges[exchanges.length - 1].push(message);
+    }
+    return exchanges;
+}
+
+function truncateToTokens(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) return text;
+    // Same ~4 characters per token as estimateTokens
+    return `${text.substring(0, maxTokens * 4 - 1).trimEnd()}…`;
+}
+
+/**
+ * Append messages to a conversation's memory in one transaction
+ */
+export async function appendToContextWindow(
     conversationId: string,
-    role: 'user' | 'assistant',
-    content: string
-): void {
-    const current = contextStore.get(conversationId) || [];
+    messages: { role: 'user' | 'assistant'; content: string }[]
+): Promise<void> {
+    const now = Date.now();
+    await runInTransaction(messages.map(({ role, content }) => ({
+        sql: `INSERT INTO conversation_messages (conversation_id, role, content, tokens, created_at) VALUES (?, ?, ?, ?, ?)`,
+        params: [conversationId, role, content, estimateTokens(content), now],
+    })));
+}
 
-    current.push({ role, content });
+/**
+ * Forget a conversation entirely: its turns and its summary
+ */
+export async function clearContextWindow(conversationId: string): Promise<void> {
+    await runInTransaction([
+        { sql: 'DELETE FROM conversation_messages WHERE conversation_id = ?', params: [conversationId] },
+        { sql: 'DELETE FROM conversation_summaries WHERE conversation_id = ?', params: [conversationId] },
+    ]);
+}
 
-    // Trim oldest messages if exceeding limit
-    while (current.length > MAX_MESSAGES) {
-        current.shift();
-    }
+export async function getSummary(conversationId: string): Promise<ConversationSummary | null> {
+    const row = await get('SELECT summary, tokens, updated_at FROM conversation_summaries WHERE conversation_id = ?', [conversationId]);
+    return row || null;
+}
 
-    contextStore.set(conversationId, current);
+export async function getMessages(conversationId: string): Promise<ContextMessage[]> {
+    const rows = await all('SELECT * FROM conversation_messages WHERE conversation_id = ? ORDER BY id', [conversationId]);
+    return rows.map(toMessage);
+}
+
+export async function getUnsummarizedMessages(conversationId: string): Promise<ContextMessage[]> {
+    const rows = await all('SELECT * FROM conversation_messages WHERE conversation_id = ? AND summarized = 0 ORDER BY id', [conversationId]);
+    return rows.map(toMessage);
 }
 
 /**
- * Clear context for a conversation (optional utility).
+ * Replace the running summary and mark the turns it now covers (ids up to `throughId`)
  */
-export function clearContextWindow(conversationId: string): void {
-    contextStore.delete(conversationId);
+export async function saveSummary(conversationId: string, summary: string, throughId: number): Promise<void> {
+    await runInTransaction([
+        {
+            sql: `INSERT INTO conversation_summaries (conversation_id, summary, tokens, updated_at) VALUES (?, ?, ?, ?)
+                  ON CONFLICT(conversation_id) DO UPDATE SET summary = excluded.summary, tokens = excluded.tokens, updated_at = excluded.updated_at`,
+            params: [conversationId, summary, estimateTokens(summary), Date.now()],
+        },
+        {
+            sql: 'UPDATE conversation_messages SET summarized = 1 WHERE conversation_id = ? AND id <= ?',
+            params: [conversationId, throughId],
+        },
+    ]);
+}
+
+/**
+ * Drop conversations with no new turns since `before` (epoch ms); returns their ids
+ */
+export async function pruneIdleConversations(before: number): Promise<string[]> {
+    const rows = await all(
+        'SELECT conversation_id FROM conversation_messages GROUP BY conversation_id HAVING MAX(created_at) < ?',
+        [before]
+    );
+    for (const { conversation_id } of rows) {
+        await clearContextWindow(conversation_id);
+    }
+    return rows.map(row => row.conversation_id);
 }
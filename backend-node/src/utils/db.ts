@@ -1,8 +1,9 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 
-// Open database in the root directory (or wherever appropriate)
-const dbPath = path.resolve(__dirname, '../../rag_feedback.db');
+// Open database in the root directory (or wherever appropriate).
+// SQLITE_PATH overrides it (tests use ':memory:'); it's read on import, before .env is loaded.
+const dbPath = process.env.SQLITE_PATH || path.resolve(__dirname, '../../rag_feedback.db');
 const db = new sqlite3.Database(dbPath, (err) => {
     if (err) {
         console.error('Could not connect to database', err);
@@ -11,6 +12,17 @@ const db = new sqlite3.Database(dbPath, (err) => {
     }
 });
 
+/**
+ * Add a column to an existing table; a no-op once the column exists
+ */
+function addColumn(table: string, columnDefinition: string) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${columnDefinition}`, (err) => {
+        if (err && !err.message.includes('duplicate column name')) {
+            console.error(`Failed to migrate ${table}:`, err);
+        }
+    });
+}
+
 export function initDb() {
     db.serialize(() => {
         // Queries table
@@ -19,6 +31,8 @@ export function initDb() {
             text TEXT NOT NULL,
             timestamp INTEGER NOT NULL
         )`);
+        // The user's own words when `text` is a standalone rewrite of a follow-up
+        addColumn('queries', 'original_text TEXT');
 
         // Hops table
         db.run(`CREATE TABLE IF NOT EXISTS hops (
@@ -54,6 +68,8 @@ export function initDb() {
             user_correction TEXT,
             FOREIGN KEY(query_id) REFERENCES queries(id)
         )`);
+        // 'complete', or 'cancelled' when the client disconnected mid-answer
+        addColumn('responses', "status TEXT NOT NULL DEFAULT 'complete'");
 
         // Evidence Chains table (validated reasoning paths)
         db.run(`CREATE TABLE IF NOT EXISTS evidence_chains (
@@ -65,12 +81,109 @@ export function initDb() {
             FOREIGN KEY(response_id) REFERENCES responses(id)
         )`);
 
+        // Ingested documents (chunks live in the vector index as `${id}#chunk-${n}`)
+        db.run(`CREATE TABLE IF NOT EXISTS documents (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            source TEXT NOT NULL,
+            format TEXT NOT NULL,
+            tags TEXT,
+            chunk_count INTEGER NOT NULL,
+            char_count INTEGER NOT NULL,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL
+        )`);
+        // Set for conversation attachments; NULL for the shared knowledge base
+        addColumn('documents', 'namespace TEXT');
+
+        // Local vector store (VECTOR_STORE=local); vectors are float32 blobs
+        db.run(`CREATE TABLE IF NOT EXISTS vectors (
+            id TEXT PRIMARY KEY,
+            vector BLOB NOT NULL,
+            metadata TEXT
+        )`);
+
+        // BM25 sparse index: one row per indexed chunk plus term postings
+        db.run(`CREATE TABLE IF NOT EXISTS bm25_docs (
+            doc_id TEXT PRIMARY KEY,
+            length INTEGER NOT NULL,
+            metadata TEXT
+        )`);
+        addColumn('bm25_docs', 'namespace TEXT');
+
+        db.run(`CREATE TABLE IF NOT EXISTS bm25_postings (
+            term TEXT NOT NULL,
+            doc_id TEXT NOT NULL,
+            tf INTEGER NOT NULL,
+            PRIMARY KEY (term, doc_id)
+        )`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_bm25_postings_doc ON bm25_postings(doc_id)`);
+
+        // Query embeddings, used to match new queries against past successful decompositions
+        db.run(`CREATE TABLE IF NOT EXISTS query_embeddings (
+            query_id TEXT PRIMARY KEY,
+            vector BLOB NOT NULL,
+            FOREIGN KEY(query_id) REFERENCES queries(id)
+        )`);
+
+        // Hop templates: a past query whose decomposition was replayed, and how replays were rated
+        db.run(`CREATE TABLE IF NOT EXISTS hop_templates (
+            query_id TEXT PRIMARY KEY,
+            status TEXT NOT NULL DEFAULT 'active',
+            positive_count INTEGER NOT NULL DEFAULT 0,
+            negative_count INTEGER NOT NULL DEFAULT 0,
+            updated_at INTEGER NOT NULL,
+            FOREIGN KEY(query_id) REFERENCES queries(id)
+        )`);
+
+        // Which template each replayed query reused
+        db.run(`CREATE TABLE IF NOT EXISTS template_replays (
+            query_id TEXT PRIMARY KEY,
+            template_query_id TEXT NOT NULL,
+            similarity REAL NOT NULL,
+            FOREIGN KEY(query_id) REFERENCES queries(id),
+            FOREIGN KEY(template_query_id) REFERENCES queries(id)
+        )`);
+
+        // User corrections awaiting review; only approved ones are indexed (vector_id)
+        db.run(`CREATE TABLE IF NOT EXISTS corrections (
+            id TEXT PRIMARY KEY,
+            response_id TEXT NOT NULL,
+            text TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'pending',
+            vector_id TEXT,
+            review_note TEXT,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            reviewed_at INTEGER,
+            FOREIGN KEY(response_id) REFERENCES responses(id)
+        )`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_corrections_status ON corrections(status)`);
+
+        // Conversation memory: every turn, plus a running summary of the turns folded out of the window
+        db.run(`CREATE TABLE IF NOT EXISTS conversation_messages (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            conversation_id TEXT NOT NULL,
+            role TEXT NOT NULL,
+            content TEXT NOT NULL,
+            tokens INTEGER NOT NULL,
+            summarized INTEGER NOT NULL DEFAULT 0,
+            created_at INTEGER NOT NULL
+        )`);
+        db.run(`CREATE INDEX IF NOT EXISTS idx_conversation_messages_conv ON conversation_messages(conversation_id, summarized)`);
+
+        db.run(`CREATE TABLE IF NOT EXISTS conversation_summaries (
+            conversation_id TEXT PRIMARY KEY,
+            summary TEXT NOT NULL,
+            tokens INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL
+        )`);
+
         console.log("Database tables initialized.");
     });
 }
 
-// Helper to run queries as Promises
-export function run(sql: string, params: any[] = []): Promise<void> {
+function execute(sql: string, params: unknown[] = []): Promise<void> {
     return new Promise((resolve, reject) => {
         db.run(sql, params, function (err) {
             if (err) reject(err);
@@ -79,6 +192,22 @@ export function run(sql: string, params: any[] = []): Promise<void> {
     });
 }
 
+// Every write goes through one queue: with a single shared connection, a write issued
+// while a transaction is open would otherwise become part of it (and of its rollback)
+let writeChain: Promise<void> = Promise.resolve();
+
+function enqueueWrite(task: () => Promise<void>): Promise<void> {
+    const result = writeChain.then(task);
+    // Keep the chain alive regardless of this write's outcome
+    writeChain = result.catch(() => undefined);
+    return result;
+}
+
+// Helper to run queries as Promises
+export function run(sql: string, params: unknown[] = []): Promise<void> {
+    return enqueueWrite(() => execute(sql, params));
+}
+
 export function get(sql: string, params: any[] = []): Promise<any> {
     return new Promise((resolve, reject) => {
         db.get(sql, params, (err, row) => {
@@ -97,4 +226,25 @@ export function all(sql: string, params: any[] = []): Promise<any[]> {
     });
 }
 
+/**
+ * Run several statements atomically inside a single transaction.
+ * Rolls back and rejects if any statement fails.
+ */
+export function runInTransaction(statements: { sql: string; params?: unknown[] }[]): Promise<void> {
+    if (statements.length === 0) return Promise.resolve();
+
+    return enqueueWrite(async () => {
+        await execute('BEGIN TRANSACTION');
+        try {
+            for (const { sql, params } of statements) {
+                await execute(sql, params || []);
+            }
+            await execute('COMMIT');
+        } catch (err) {
+            await execute('ROLLBACK').catch(() => undefined);
+            throw err;
+        }
+    });
+}
+
 export default db;
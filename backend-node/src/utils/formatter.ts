@@ -1,43 +1,46 @@
-import { Block, ChatResponse, Source } from '../types/chat';
+import { Block, ChatResponse, Citation, Source } from '../types/chat';
+import { RawBlock } from './structuredOutput';
 
-export function parseLlmJsonResponse(llmOutput: string): Block[] {
-    let cleaned = llmOutput.trim();
+// [n] markers that aren't glued to a word, so `arr[1]` is left alone
+const CITATION_MARKER = /(?<!\w)\[(\d{1,3})\]/g;
+// The same, with the spaces before it
+const SPACED_CITATION_MARKER = /( *)(?<!\w)\[(\d{1,3})\]/g;
+const SNIPPET_LENGTH = 240;
 
-    // Remove markdown code block wrapper if present
-    if (cleaned.startsWith('```json')) {
-        cleaned = cleaned.substring(7);
-    } else if (cleaned.startsWith('```')) {
-        cleaned = cleaned.substring(3);
-    }
-    if (cleaned.endsWith('```')) {
-        cleaned = cleaned.substring(0, cleaned.length - 3);
-    }
-
-    cleaned = cleaned.trim();
-
-    try {
-        const data = JSON.parse(cleaned);
-
-        // Guard against non-dict JSON
-        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
-            return [{ type: 'paragraph', content: llmOutput }];
-        }
-
-        const blocksData = data.blocks;
-        if (!blocksData || !Array.isArray(blocksData)) {
-            return [{ type: 'paragraph', content: llmOutput }];
-        }
-
-        return blocksData.map((b: any) => ({
-            type: b.type || 'paragraph',
+/**
+ * Turn validated LLM blocks into response blocks. When the response was grounded
+ * in sources, citation markers are validated against them and resolved per block.
+ */
+export function toResponseBlocks(rawBlocks: RawBlock[], sources: Source[] = []): Block[] {
+    return rawBlocks.map(({ citations, ...b }) => {
+        const block: Block = {
+            type: b.type,
             content: b.content,
             items: b.items,
             language: b.language,
-        }));
-    } catch (e) {
-        // Fallback: wrap raw text as paragraph
-        return [{ type: 'paragraph', content: llmOutput }];
-    }
+        };
+        return sources.length > 0 && block.type !== 'code'
+            ? attachCitations(block, citations, sources)
+            : block;
+    });
+}
+
+/**
+ * Readable Markdown-ish text for blocks, used where the answer is fed back to the
+ * model (conversation memory) instead of the raw block JSON
+ */
+export function blocksToText(blocks: RawBlock[]): string {
+    return blocks.map(block => {
+        switch (block.type) {
+            case 'heading': return `## ${block.content || ''}`;
+            case 'list': return (block.items || []).map(item => `- ${item}`).join('\n');
+            case 'numbered_list': return (block.items || []).map((item, i) => `${i + 1}. ${item}`).join('\n');
+            case 'quote': return `> ${block.content || ''}`;
+            case 'code': return `\`\`\`${block.language || ''}\n${block.content || ''}\n\`\`\``;
+            case 'divider': return '---';
+            default: return block.content || '';
+        }
+    }).filter(Boolean).join('\n\n');
 }
 
 export function createFallbackResponse(): ChatResponse {
@@ -50,7 +53,7 @@ export function createFallbackResponse(): ChatResponse {
             },
         ],
         sources: [],
-        mode: 'rag',
+        mode: 'fallback',
         request_id: '',
     };
 }
@@ -70,9 +73,70 @@ export function createErrorResponse(errorMessage: string, requestId: string): Ch
 }
 
 export function formatSources(rawSources: any[]): Source[] {
-    return rawSources.map((s) => ({
+    return rawSources.map((s, i) => ({
+        index: i + 1,
         title: s.title || 'Unknown',
         source: s.source || 'Unknown',
         score: s.score || 0,
+        ...(s.semanticScore !== undefined ? { semanticScore: s.semanticScore } : {}),
+        ...(s.keywordScore !== undefined ? { keywordScore: s.keywordScore } : {}),
+        ...(s.rerankScore !== undefined ? { rerankScore: s.rerankScore } : {}),
+        ...(s.text ? { snippet: toSnippet(s.text) } : {}),
     }));
 }
+
+/**
+ * Merge the block's declared citations with the markers in its text, dropping
+ * (and stripping from the text) any that don't point at a real source
+ */
+function attachCitations(block: Block, declared: unknown, sources: Source[]): Block {
+    const indices = new Set<number>();
+
+    if (Array.isArray(declared)) {
+        declared.map(Number).filter(i => isValidIndex(i, sources)).forEach(i => indices.add(i));
+    }
+
+    const clean = (text: string): string => {
+        collectMarkers(text).filter(i => isValidIndex(i, sources)).forEach(i => indices.add(i));
+        return text.replace(SPACED_CITATION_MARKER, (marker: string, spaces: string, n: string, offset: number) => {
+            if (isValidIndex(Number(n), sources)) return marker;
+            // Take the space before a removed marker with it, unless the marker was glued to the next word
+            const next = text.charAt(offset + marker.length);
+            return next === '' || /[\s.,;:!?)]/.test(next) ? '' : spaces;
+        });
+    };
+
+    const cited: Block = {
+        ...block,
+        content: typeof block.content === 'string' ? clean(block.content) : block.content,
+        items: Array.isArray(block.items) ? block.items.map(item => typeof item === 'string' ? clean(item) : item) : block.items,
+    };
+
+    if (indices.size > 0) {
+        cited.citations = Array.from(indices).sort((a, b) => a - b).map(i => toCitation(sources[i - 1]));
+    }
+    return cited;
+}
+
+function collectMarkers(text: string): number[] {
+    return Array.from(text.matchAll(CITATION_MARKER), m => Number(m[1]));
+}
+
+function isValidIndex(index: number, sources: Source[]): boolean {
+    return Number.isInteger(index) && index >= 1 && index <= sources.length;
+}
+
+function toCitation(source: Source): Citation {
+    return {
+        index: source.index,
+        title: source.title,
+        source: source.source,
+        snippet: source.snippet || '',
+        score: source.score,
+    };
+}
+
+function toSnippet(text: string): string {
+    const collapsed = text.replace(/\s+/g, ' ').trim();
+    return collapsed.length > SNIPPET_LENGTH ? `${collapsed.substring(0, SNIPPET_LENGTH).trimEnd()}…` : collapsed;
+}
@@ -0,0 +1,153 @@
+/**
+ * Score Fusion Strategies for Hybrid Search
+ * Combine semantic, keyword and feedback signals into a single finalScore
+ */
+
+import { FusionOptions, FusionRequest, FusionStrategyName, SignalRanks } from '../types/fusion';
+
+export interface FusionCandidate {
+    semanticScore: number;
+    keywordScore: number;
+    feedbackScore: number;
+    appearsInBoth: boolean;
+    ranks: SignalRanks;
+    finalScore: number;
+}
+
+interface FusionStrategy {
+    fuse(candidates: FusionCandidate[], options: FusionOptions): void;
+}
+
+/**
+ * Today's behavior: raw scores added with fixed weights, plus a bonus for
+ * documents found by both retrievers
+ */
+const weightedLinear: FusionStrategy = {
+    fuse(candidates, { weights, bothBoost }) {
+        for (const c of candidates) {
+            c.finalScore = (weights.alpha * c.semanticScore) +
+                (weights.beta * c.keywordScore) +
+                (weights.gamma * c.feedbackScore) +
+                (c.appearsInBoth ? bothBoost : 0);
+        }
+    }
+};
+
+/**
+ * Each signal is min-max normalized across the candidate set before weighting,
+ * so cosine similarities and keyword proportions live on the same 0..1 scale.
+ * Feedback keeps its sign: it is scaled by its largest magnitude instead.
+ */
+const minMaxLinear: FusionStrategy = {
+    fuse(candidates, { weights }) {
+        const semantic = minMax(candidates.map(c => c.semanticScore));
+        const keyword = minMax(candidates.map(c => c.keywordScore));
+        const maxFeedback = Math.max(0, ...candidates.map(c => Math.abs(c.feedbackScore)));
+
+        candidates.forEach((c, i) => {
+            const feedback = maxFeedback > 0 ? c.feedbackScore / maxFeedback : 0;
+            c.finalScore = (weights.alpha * semantic[i]) +
+                (weights.beta * keyword[i]) +
+                (weights.gamma * feedback);
+        });
+    }
+};
+
+/**
+ * Reciprocal Rank Fusion: sum of weight / (k + rank) over the retrievers that
+ * returned the document. Feedback is signed, so it contributes as if it were a
+ * top-ranked signal scaled by its value. Scores are divided by the best
+ * attainable score so thresholds stay on a 0..1 scale.
+ */
+const reciprocalRank: FusionStrategy = {
+    fuse(candidates, { weights, rrfK }) {
+        const best = (weights.alpha + weights.beta + weights.gamma) / (rrfK + 1) || 1;
+
+        for (const c of candidates) {
+            let score = 0;
+            if (c.ranks.semantic !== null) score += weights.alpha / (rrfK + c.ranks.semantic);
+            if (c.ranks.keyword !== null) score += weights.beta / (rrfK + c.ranks.keyword);
+            score += (weights.gamma * c.feedbackScore) / (rrfK + 1);
+            c.finalScore = score / best;
+        }
+    }
+};
+
+const STRATEGIES: Record<FusionStrategyName, FusionStrategy> = {
+    weighted: weightedLinear,
+    minmax: minMaxLinear,
+    rrf: reciprocalRank,
+};
+
+export const FUSION_STRATEGIES = Object.keys(STRATEGIES) as FusionStrategyName[];
+
+export function isFusionStrategy(name: unknown): name is FusionStrategyName {
+    return typeof name === 'string' && name in STRATEGIES;
+}
+
+/**
+ * Validate per-request overrides; returns an error message or null
+ */
+export function validateFusionRequest(request: FusionRequest | undefined): string | null {
+    if (!request) return null;
+    if (request.strategy !== undefined && !isFusionStrategy(request.strategy)) {
+        return `Unknown fusion strategy "${request.strategy}" (expected ${FUSION_STRATEGIES.join(', ')})`;
+    }
+    for (const [key, value] of Object.entries(request.weights || {})) {
+        if (typeof value !== 'number' || value < 0) {
+            return `Fusion weight "${key}" must be a non-negative number`;
+        }
+    }
+    if (request.rrf_k !== undefined && (typeof request.rrf_k !== 'number' || request.rrf_k <= 0)) {
+        return 'rrf_k must be a positive number';
+    }
+    return null;
+}
+
+/**
+ * Defaults come from env (FUSION_STRATEGY, FUSION_ALPHA/BETA/GAMMA, FUSION_RRF_K,
+ * FUSION_BOTH_BOOST); per-request values override them
+ */
+export function resolveFusionOptions(request: FusionRequest = {}): FusionOptions {
+    const envStrategy = process.env.FUSION_STRATEGY || 'weighted';
+    const strategy = request.strategy || (isFusionStrategy(envStrategy) ? envStrategy : 'weighted');
+
+    return {
+        strategy,
+        weights: {
+            alpha: request.weights?.alpha ?? parseFloat(process.env.FUSION_ALPHA || '0.6'),
+            beta: request.weights?.beta ?? parseFloat(process.env.FUSION_BETA || '0.3'),
+            gamma: request.weights?.gamma ?? parseFloat(process.env.FUSION_GAMMA || '0.1'),
+        },
+        rrfK: request.rrf_k ?? parseFloat(process.env.FUSION_RRF_K || '60'),
+        bothBoost: parseFloat(process.env.FUSION_BOTH_BOOST || '0.05'),
+    };
+}
+
+/**
+ * Fill in per-signal ranks and finalScore for every candidate
+ */
+export function fuseCandidates(candidates: FusionCandidate[], options: FusionOptions): void {
+    assignRanks(candidates);
+    STRATEGIES[options.strategy].fuse(candidates, options);
+}
+
+function assignRanks(candidates: FusionCandidate[]): void {
+    const rankBy = (score: (c: FusionCandidate) => number, key: keyof SignalRanks) => {
+        const scored = candidates.filter(c => score(c) > 0).sort((a, b) => score(b) - score(a));
+        candidates.forEach(c => { c.ranks[key] = null; });
+        scored.forEach((c, i) => { c.ranks[key] = i + 1; });
+    };
+
+    rankBy(c => c.semanticScore, 'semantic');
+    rankBy(c => c.keywordScore, 'keyword');
+    rankBy(c => c.feedbackScore, 'feedback');
+}
+
+function minMax(values: number[]): number[] {
+    if (values.length === 0) return [];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    if (max === min) return values.map(v => (v > 0 ? 1 : 0));
+    return values.map(v => (v - min) / (max - min));
+}
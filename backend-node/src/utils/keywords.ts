@@ -81,6 +81,20 @@ export function extractKeywords(text: string): string[] {
     return keywords;
 }
 
+/**
+ * Tokenize text for the BM25 index: lowercased words with stopwords removed.
+ * Unlike extractKeywords, repeated terms are kept so term frequencies can be counted.
+ */
+export function tokenize(text: string): string[] {
+    const normalized = text.toLowerCase().replace(/[^\w\s-]/g, ' ');
+
+    return normalized
+        .split(/\s+/)
+        .map(t => t.replace(/^-+|-+$/g, ''))
+        .filter(t => t.length > 0)
+        .filter(t => DOMAIN_TERMS.has(t) || (t.length >= 2 && !STOPWORDS.has(t)));
+}
+
 /**
  * Calculate keyword match score between query keywords and text
  * @param keywords - Extracted keywords from query
@@ -120,3 +134,11 @@ export function hasKeywordMatch(keywords: string[], text: string): boolean {
     const textLower = text.toLowerCase();
     return keywords.some(kw => textLower.includes(kw));
 }
+
+/**
+ * Case-insensitive match of a word or phrase that isn't part of a longer word ("neo" but not "neon")
+ */
+export function wordPattern(trigger: string): RegExp {
+    const escaped = trigger.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+}
@@ -0,0 +1,74 @@
+/**
+ * Metadata Filter Matching
+ * Evaluates Pinecone-style metadata filters in memory (used by the local vector store)
+ */
+
+import { Metadata, MetadataFilter } from '../types/vectorStore';
+
+/**
+ * Records of one namespace, or of the shared index (no namespace) when unset.
+ * For stores that keep the namespace in metadata rather than natively.
+ */
+export function namespaceFilter(namespace?: string): MetadataFilter {
+    return namespace ? { namespace } : { namespace: { $exists: false } };
+}
+
+/**
+ * Check whether a record's metadata satisfies a filter.
+ * Array-valued metadata (e.g. tags) matches if any element matches.
+ */
+export function matchesFilter(metadata: Metadata = {}, filter?: MetadataFilter): boolean {
+    if (!filter) return true;
+
+    for (const [key, condition] of Object.entries(filter)) {
+        if (key === '$and') {
+            if (!(condition as MetadataFilter[]).every(f => matchesFilter(metadata, f))) return false;
+            continue;
+        }
+        if (key === '$or') {
+            if (!(condition as MetadataFilter[]).some(f => matchesFilter(metadata, f))) return false;
+            continue;
+        }
+
+        const value = metadata[key];
+        const isOperatorObject = condition !== null && typeof condition === 'object' && !Array.isArray(condition);
+
+        if (!isOperatorObject) {
+            if (!matchesOperator(value, '$eq', condition)) return false;
+            continue;
+        }
+
+        for (const [op, operand] of Object.entries(condition)) {
+            if (!matchesOperator(value, op, operand)) return false;
+        }
+    }
+
+    return true;
+}
+
+function matchesOperator(value: unknown, op: string, operand: unknown): boolean {
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+
+    switch (op) {
+        case '$eq':
+            return values.some(v => v === operand);
+        case '$ne':
+            return values.every(v => v !== operand);
+        case '$in':
+            return values.some(v => (operand as unknown[]).includes(v));
+        case '$nin':
+            return values.every(v => !(operand as unknown[]).includes(v));
+        case '$gt':
+            return typeof value === 'number' && value > (operand as number);
+        case '$gte':
+            return typeof value === 'number' && value >= (operand as number);
+        case '$lt':
+            return typeof value === 'number' && value < (operand as number);
+        case '$lte':
+            return typeof value === 'number' && value <= (operand as number);
+        case '$exists':
+            return (value !== undefined) === Boolean(operand);
+        default:
+            throw new Error(`Unsupported metadata filter operator: ${op}`);
+    }
+}
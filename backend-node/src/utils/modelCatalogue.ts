@@ -0,0 +1,31 @@
+/**
+ * Model Catalogue File
+ * Entries of config/models.json (or MODEL_CATALOGUE), loaded once. The catalogue
+ * service lists them for GET /api/models; the LLM service checks their capabilities.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ModelCatalogue, ModelCatalogueEntry } from '../types/models';
+
+let entries: Map<string, ModelCatalogueEntry> | null = null;
+
+export function getCatalogueEntries(): Map<string, ModelCatalogueEntry> {
+    if (!entries) {
+        const cataloguePath = process.env.MODEL_CATALOGUE || path.resolve(__dirname, '../../config/models.json');
+        try {
+            const catalogue: ModelCatalogue = JSON.parse(fs.readFileSync(cataloguePath, 'utf-8'));
+            entries = new Map((catalogue.models || []).map(entry => [entry.id, entry]));
+            console.log(`[Models] Loaded ${entries.size} catalogue entries from ${cataloguePath}`);
+        } catch (err) {
+            // Models are still usable without descriptions; capabilities default to supported
+            console.warn(`[Models] Could not read the model catalogue at ${cataloguePath}:`, err);
+            entries = new Map();
+        }
+    }
+    return entries;
+}
+
+export function getCatalogueEntry(model: string): ModelCatalogueEntry | undefined {
+    return getCatalogueEntries().get(model);
+}
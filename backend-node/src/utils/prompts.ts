@@ -46,6 +46,12 @@ GROUNDING RULES:
 3. Do NOT infer beyond what the context states
 4. If the answer is not clearly present, use the fallback response
 
+CITATION RULES:
+- Every passage in the CONTEXT starts with a number in brackets, e.g. [1]
+- Put a marker like [1] or [1][3] right after each statement supported by those passages
+- List every passage number a block cites in its "citations" array
+- Only cite numbers that appear in the CONTEXT
+
 CONTEXT:
 {context}
 
@@ -66,6 +72,10 @@ CRITICAL OUTPUT RULES:
 - Do NOT mention the word “context” in your response
 - The JSON must match the block schema exactly
 
+BLOCK SCHEMA:
+{"type": "paragraph", "content": "Neo routes queries through Orion [2].", "citations": [2]}
+Lists carry markers inside their items: {"type": "list", "items": ["Point [1]"], "citations": [1]}
+
 ALLOWED BLOCK TYPES:
 - heading
 - paragraph
@@ -81,60 +91,66 @@ RESPONSE STYLE:
 NEVER output anything except valid JSON.`;
 
 
-// Streaming Prompts (Markdown based, no JSON enforcement)
-export const GENERAL_STREAMING_PROMPT = `You are Neo, a friendly and helpful AI assistant.
+/**
+ * Number a retrieved passage so the model can cite it as [n]
+ */
+export function formatContextPassage(index: number, title: string, text: string): string {
+  return `[${index}] ${title}\n${text}`;
+}
 
-You have a calm, thoughtful personality. You engage naturally in conversation on any topic.
-Be concise but thorough. Use a conversational tone.
+export function getGeneralPrompt(): string {
+  return GENERAL_SYSTEM_PROMPT;
+}
 
-Response Format:
-- Use standard Markdown formatting.
-- Use **bold** for emphasis.
-- Use lists for multiple points.
-- Use code blocks for code.
-- Do NOT output JSON. Just natural text.`;
+export function getRagPrompt(context: string): string {
+  return RAG_SYSTEM_PROMPT.replace('{context}', context);
+}
 
-export const RAG_STREAMING_PROMPT = `You are Neo, an internal knowledge assistant for Cogneoverse.
+export const CANVAS_INSTRUCTIONS = `CANVAS MODE:
+The user asked for a long-form document rather than a chat reply.
+- Start with a heading block that titles the document
+- Organize the body into sections, each introduced by a heading block
+- Cover the topic thoroughly: explain, give examples, and use lists and code blocks where they help
+- End with a short summary section
+- The same output and grounding rules apply`;
+
+/**
+ * Ask for a structured long-form document instead of a conversational answer
+ */
+export function withCanvasInstructions(systemPrompt: string): string {
+  return `${systemPrompt}\n\n${CANVAS_INSTRUCTIONS}`;
+}
 
-You MUST answer using ONLY the provided CONTEXT.
-You MUST NOT use any external knowledge or assumptions.
+export const REASONING_PROMPT = `You are planning how Neo, an AI assistant, should answer the user's latest message. Do not write the answer itself.
 
-IMPORTANT BEHAVIOR RULES:
-- Read and understand ALL relevant parts of the context
-- Combine information from multiple context chunks when needed
-- Synthesize a clear answer in your OWN WORDS
-- Do NOT copy-paste large sections of the context
-- Only quote the context if explicitly quoting a definition or statement
+Think it through in 3-7 short steps:
+- What is the user actually asking, and what would a complete answer need?
+- Which facts from the CONTEXT (if any) are relevant, and what is missing?
+- How should the answer be structured?
 
-GROUNDING RULES:
-1. Use ONLY information present in the CONTEXT
-2. Do NOT add facts that are not explicitly supported
-3. Do NOT infer beyond what the context states
-4. If the answer is not clearly present, state that you don't have that information.
+Each step is one or two sentences. Output ONLY a JSON object of this shape:
+{"steps": ["step 1", "step 2"]}
 
 CONTEXT:
-{context}
+{context}`;
 
-RESPONSE STYLE:
-- Use standard Markdown formatting
-- Prefer concise synthesized explanations
-- Use lists to summarize multiple points
-- Do NOT output JSON. Just natural text.`;
-
-export function getGeneralPrompt(): string {
-  return GENERAL_SYSTEM_PROMPT;
+export function getReasoningPrompt(context: string): string {
+  return REASONING_PROMPT.replace('{context}', () => context || '(no retrieved context; answer from general knowledge)');
 }
 
-export function getRagPrompt(context: string): string {
-  return RAG_SYSTEM_PROMPT.replace('{context}', context);
+/**
+ * Hand the reasoning pass's plan to the answering call
+ */
+export function withReasoningNotes(systemPrompt: string, steps: string[]): string {
+  const notes = steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+  return `${systemPrompt}\n\nREASONING NOTES (your plan for this answer; follow it, but do not repeat it verbatim):\n${notes}`;
 }
 
-export function getGeneralStreamingPrompt(): string {
-  return GENERAL_STREAMING_PROMPT;
-}
-
-export function getRagStreamingPrompt(context: string): string {
-  return RAG_STREAMING_PROMPT.replace('{context}', context);
+/**
+ * Give the model the running summary of the turns that are no longer in its history
+ */
+export function withConversationSummary(systemPrompt: string, summary: string | null): string {
+  return summary ? `${systemPrompt}\n\nCONVERSATION SO FAR (summary of earlier turns, for continuity):\n${summary}` : systemPrompt;
 }
 
 export const QUERY_DECOMPOSITION_PROMPT = `You are an expert at breaking down complex questions into simple, retrievable sub-queries.
@@ -157,6 +173,54 @@ Output MUST be a valid JSON object with the following structure:
 }
 `;
 
+export const CONDENSE_QUESTION_PROMPT = `Rewrite the user's latest message as a standalone question that can be understood without the conversation.
+
+- Resolve pronouns and references ("it", "they", "that project") using the conversation
+- Keep names, terms and the user's intent exactly; do not answer the question
+- If the message is already standalone, return it unchanged
+
+Output ONLY the rewritten question, on one line.
+
+CONVERSATION:
+{history}`;
+
+export function getCondenseQuestionPrompt(history: string): string {
+  return CONDENSE_QUESTION_PROMPT.replace('{history}', () => history);
+}
+
+export const CONVERSATION_SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and Neo, an AI assistant.
+Update the summary with the new turns below so that Neo can continue the conversation without them.
+
+Keep: the user's goals, questions and preferences, facts and decisions established, names and numbers that may be referred to again, and open questions.
+Drop: greetings, filler and wording details.
+
+Write plain prose in under {maxWords} words. Output ONLY the updated summary.
+
+CURRENT SUMMARY:
+{summary}
+
+NEW TURNS:
+{transcript}`;
+
+export function getConversationSummaryPrompt(summary: string, transcript: string, maxWords: number): string {
+  return CONVERSATION_SUMMARY_PROMPT
+    .replace('{maxWords}', String(maxWords))
+    .replace('{summary}', () => summary || '(none yet)')
+    .replace('{transcript}', () => transcript);
+}
+
+export const STRUCTURED_REPAIR_PROMPT = `Your previous reply could not be used:
+{issues}
+
+Reply again with ONLY a JSON object of this shape, and nothing else:
+{shape}`;
+
+export function getStructuredRepairPrompt(issues: string[], shape: string): string {
+  return STRUCTURED_REPAIR_PROMPT
+    .replace('{issues}', issues.map(issue => `- ${issue}`).join('\n'))
+    .replace('{shape}', shape);
+}
+
 export function getQueryDecompositionPrompt(context: string, question: string): string {
   return QUERY_DECOMPOSITION_PROMPT.replace('{context}', context).replace('{question}', question);
 }
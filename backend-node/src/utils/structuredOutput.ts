@@ -0,0 +1,223 @@
+/**
+ * Structured LLM Output
+ * Tolerant JSON extraction plus the schemas for the JSON shapes we ask models for.
+ * `LlmService.callLlmStructured` adds the repair re-prompt on top of these.
+ */
+
+export type StructuredOutputFailure = 'no_json' | 'schema';
+
+/**
+ * The model's reply had no parseable JSON object, or it didn't match the schema
+ */
+export class StructuredOutputError extends Error {
+    constructor(
+        message: string,
+        public readonly reason: StructuredOutputFailure,
+        public readonly issues: string[],
+        public readonly raw: string
+    ) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export interface OutputSchema<T> {
+    name: string;
+    shape: string; // Example of the expected JSON, shown to the model when asking for a repair
+    /** Returns the normalized value, or throws a list of issues */
+    validate(data: unknown): T;
+}
+
+/**
+ * Thrown by schema validators; collects every problem so a repair prompt can list them
+ */
+class SchemaIssues extends Error {
+    constructor(public readonly issues: string[]) {
+        super(issues.join('; '));
+    }
+}
+
+/**
+ * Find the first complete JSON object in free text: ignores code fences, preambles
+ * and trailing chatter, and skips brace-delimited text that doesn't parse
+ */
+export function extractJsonObject(text: string): unknown {
+    for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+        const end = findObjectEnd(text, start);
+        if (end === -1) continue; // Never closes: a stray brace, or truncated output
+
+        try {
+            return JSON.parse(text.substring(start, end + 1));
+        } catch {
+            // Not JSON (e.g. a brace in prose); try the next candidate
+        }
+    }
+    throw new StructuredOutputError('No JSON object found in LLM output', 'no_json', ['reply did not contain a JSON object'], text);
+}
+
+/**
+ * Index of the brace closing the object opened at `start`, or -1 if it never closes
+ */
+function findObjectEnd(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Extract and validate in one go
+ */
+export function parseStructured<T>(text: string, schema: OutputSchema<T>): T {
+    const data = extractJsonObject(text);
+    try {
+        return schema.validate(data);
+    } catch (error) {
+        if (!(error instanceof SchemaIssues)) throw error;
+        throw new StructuredOutputError(`LLM output does not match the ${schema.name} schema: ${error.message}`, 'schema', error.issues, text);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// ---------------------------------------------------------------------------
+// {blocks: Block[]}
+// ---------------------------------------------------------------------------
+
+const TEXT_BLOCKS = ['heading', 'paragraph', 'quote', 'code'];
+const LIST_BLOCKS = ['list', 'numbered_list'];
+const BLOCK_TYPES = [...TEXT_BLOCKS, ...LIST_BLOCKS, 'divider'];
+
+/**
+ * A block as the model wrote it: citations are still bare passage numbers
+ */
+export interface RawBlock {
+    type: string;
+    content?: string;
+    items?: string[];
+    language?: string;
+    citations?: number[];
+}
+
+export const blocksSchema: OutputSchema<{ blocks: RawBlock[] }> = {
+    name: 'blocks',
+    shape: '{"blocks": [{"type": "paragraph", "content": "..."}, {"type": "list", "items": ["..."]}]}',
+    validate(data) {
+        if (!isObject(data)) throw new SchemaIssues(['expected a JSON object']);
+        if (!Array.isArray(data.blocks) || data.blocks.length === 0) {
+            throw new SchemaIssues(['"blocks" must be a non-empty array']);
+        }
+
+        const issues: string[] = [];
+        const blocks = data.blocks.map((b: unknown, i: number): RawBlock => {
+            const at = `blocks[${i}]`;
+            if (!isObject(b)) {
+                issues.push(`${at} must be an object`);
+                return { type: 'paragraph' };
+            }
+
+            const type = String(b.type ?? 'paragraph');
+            if (!BLOCK_TYPES.includes(type)) {
+                issues.push(`${at}.type must be one of ${BLOCK_TYPES.join(', ')}`);
+            }
+            if (TEXT_BLOCKS.includes(type) && typeof b.content !== 'string') {
+                issues.push(`${at}.content must be a string`);
+            }
+            if (LIST_BLOCKS.includes(type) && !isStringArray(b.items)) {
+                issues.push(`${at}.items must be an array of strings`);
+            }
+            if (b.language !== undefined && typeof b.language !== 'string') {
+                issues.push(`${at}.language must be a string`);
+            }
+            if (b.citations !== undefined && !(Array.isArray(b.citations) && b.citations.every(Number.isInteger))) {
+                issues.push(`${at}.citations must be an array of passage numbers`);
+            }
+
+            // Checked above; a block with problems fails the whole reply
+            return {
+                type,
+                content: b.content as string | undefined,
+                items: b.items as string[] | undefined,
+                language: b.language as string | undefined,
+                citations: b.citations as number[] | undefined,
+            };
+        });
+
+        if (issues.length > 0) throw new SchemaIssues(issues);
+        return { blocks };
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Multi-hop sufficiency check: {sufficient, queries}
+// ---------------------------------------------------------------------------
+
+export interface SufficiencyAnalysis {
+    sufficient: boolean;
+    queries: string[];
+}
+
+export const sufficiencySchema: OutputSchema<SufficiencyAnalysis> = {
+    name: 'sufficiency',
+    shape: '{"sufficient": false, "queries": ["query 1", "query 2"]}',
+    validate(data) {
+        if (!isObject(data)) throw new SchemaIssues(['expected a JSON object']);
+
+        const issues: string[] = [];
+        if (typeof data.sufficient !== 'boolean') {
+            issues.push('"sufficient" must be true or false');
+        }
+        // Queries may be left out once the context is sufficient
+        const queries = data.queries ?? [];
+        if (!isStringArray(queries)) {
+            issues.push('"queries" must be an array of strings');
+        }
+
+        if (issues.length > 0) throw new SchemaIssues(issues);
+        return {
+            sufficient: data.sufficient as boolean,
+            queries: (queries as string[]).map(q => q.trim()).filter(Boolean),
+        };
+    },
+};
+
+// ---------------------------------------------------------------------------
+// Reasoning pass (think mode): {steps}
+// ---------------------------------------------------------------------------
+
+export interface ReasoningPlan {
+    steps: string[];
+}
+
+export const reasoningSchema: OutputSchema<ReasoningPlan> = {
+    name: 'reasoning',
+    shape: '{"steps": ["step 1", "step 2"]}',
+    validate(data) {
+        if (!isObject(data)) throw new SchemaIssues(['expected a JSON object']);
+        if (!isStringArray(data.steps)) throw new SchemaIssues(['"steps" must be an array of strings']);
+
+        const steps = data.steps.map(step => step.trim()).filter(Boolean);
+        if (steps.length === 0) throw new SchemaIssues(['"steps" must contain at least one step']);
+        return { steps };
+    },
+};
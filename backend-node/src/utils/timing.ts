@@ -0,0 +1,33 @@
+/**
+ * Per-stage latency measurement for request pipelines
+ */
+
+export type StageTimings = Record<string, number>;
+
+export class StageTimer {
+    public readonly timings: StageTimings = {};
+    private readonly startTime = Date.now();
+
+    /**
+     * Run `fn` and add its duration (ms) to `stage`
+     */
+    public async time<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+        const start = Date.now();
+        try {
+            return await fn();
+        } finally {
+            this.timings[stage] = (this.timings[stage] || 0) + (Date.now() - start);
+        }
+    }
+
+    /**
+     * Stage timings plus the total elapsed time since the timer was created
+     */
+    public finish(): StageTimings {
+        return { ...this.timings, total: Date.now() - this.startTime };
+    }
+
+    public format(): string {
+        return Object.entries(this.finish()).map(([stage, ms]) => `${stage}=${ms}ms`).join(' ');
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * Vector math helpers shared by retrieval stages
+ */
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Vectors are stored in SQLite as little-endian float32 blobs
+export function encodeVector(values: ArrayLike<number>): Buffer {
+    return Buffer.from(new Float32Array(values).buffer);
+}
+
+export function decodeVector(blob: Buffer): Float32Array {
+    const copy = Uint8Array.from(blob);
+    return new Float32Array(copy.buffer, 0, copy.byteLength / 4);
+}
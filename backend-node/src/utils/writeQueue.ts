@@ -0,0 +1,45 @@
+/**
+ * Background Write Queue
+ * Collects log writes that don't need to block a response and commits
+ * everything queued in the same tick as one transaction.
+ */
+
+import { runInTransaction } from './db';
+
+export interface QueuedStatement {
+    sql: string;
+    params?: unknown[];
+}
+
+let pending: QueuedStatement[] = [];
+let scheduled: Promise<void> | null = null;
+
+/**
+ * Queue statements for the next batch. Failures are logged, never thrown.
+ */
+export function enqueueWrites(statements: QueuedStatement[]): void {
+    if (statements.length === 0) return;
+    pending.push(...statements);
+
+    if (!scheduled) {
+        scheduled = new Promise<void>(resolve => setImmediate(resolve)).then(flushWrites);
+    }
+}
+
+/**
+ * Commit everything queued so far (e.g. before shutdown or in scripts)
+ */
+export async function flushWrites(): Promise<void> {
+    scheduled = null;
+    const batch = pending;
+    pending = [];
+    if (batch.length === 0) return;
+
+    const startTime = Date.now();
+    try {
+        await runInTransaction(batch);
+        console.log(`[WriteQueue] Committed ${batch.length} statements in ${Date.now() - startTime}ms`);
+    } catch (err) {
+        console.error(`[WriteQueue] Failed to commit ${batch.length} statements:`, err);
+    }
+}
@@ -0,0 +1,53 @@
+import './setup';
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import db, { initDb, run } from '../src/utils/db';
+import attachmentService from '../src/services/attachment.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.now();
+
+// Documents without chunks, so deleting them never reaches the vector store
+async function addAttachment(conversationId: string, updatedAt: number): Promise<void> {
+    await run(
+        `INSERT INTO documents (id, title, source, format, tags, chunk_count, char_count, created_at, updated_at, namespace)
+         VALUES (?, 'notes.md', ?, 'markdown', '["attachment"]', 0, 0, ?, ?, ?)`,
+        [`doc-${conversationId}`, `conversations/${conversationId}/notes.md`, updatedAt, updatedAt, attachmentService.getNamespace(conversationId)]
+    );
+}
+
+async function addMessage(conversationId: string, createdAt: number): Promise<void> {
+    await run(
+        "INSERT INTO conversation_messages (conversation_id, role, content, tokens, created_at) VALUES (?, 'user', 'Hi', 1, ?)",
+        [conversationId, createdAt]
+    );
+}
+
+describe('AttachmentService.pruneIdleAttachments', () => {
+    before(async () => {
+        db.serialize();
+        initDb();
+
+        await addAttachment('never-answered', now - 40 * DAY);
+        await addAttachment('idle', now - 40 * DAY);
+        await addMessage('idle', now - 35 * DAY);
+        await addAttachment('still-talking', now - 40 * DAY);
+        await addMessage('still-talking', now - DAY);
+        await addAttachment('just-uploaded', now - DAY);
+        await run(
+            `INSERT INTO documents (id, title, source, format, tags, chunk_count, char_count, created_at, updated_at)
+             VALUES ('shared', 'Handbook', 'handbook.md', 'markdown', NULL, 0, 0, ?, ?)`,
+            [now - 40 * DAY, now - 40 * DAY]
+        );
+    });
+
+    test('removes attachments with no recent upload or turn, including conversations that never got an answer', async () => {
+        const pruned = await attachmentService.pruneIdleAttachments(now - 30 * DAY);
+        assert.deepEqual(pruned.sort(), ['idle', 'never-answered']);
+
+        assert.deepEqual(await attachmentService.listAttachments('never-answered'), []);
+        assert.deepEqual(await attachmentService.listAttachments('idle'), []);
+        assert.equal((await attachmentService.listAttachments('still-talking')).length, 1);
+        assert.equal((await attachmentService.listAttachments('just-uploaded')).length, 1);
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlockStreamEvent, BlockStreamParser } from '../src/utils/blockStreamParser';
+
+/**
+ * Feed the reply in fixed-size chunks, as a stream would deliver it
+ */
+function parse(reply: string, chunkSize = 3): { parser: BlockStreamParser; events: BlockStreamEvent[] } {
+    const parser = new BlockStreamParser();
+    const events: BlockStreamEvent[] = [];
+    for (let i = 0; i < reply.length; i += chunkSize) {
+        events.push(...parser.push(reply.substring(i, i + chunkSize)));
+    }
+    events.push(...parser.end());
+    return { parser, events };
+}
+
+/**
+ * Text streamed for one block (or one list item), joined across deltas
+ */
+function streamedText(events: BlockStreamEvent[], index: number, item?: number): string {
+    return events
+        .filter((e): e is Extract<BlockStreamEvent, { type: 'block_delta' }> =>
+            e.type === 'block_delta' && e.index === index && e.item === item)
+        .map(e => e.text)
+        .join('');
+}
+
+describe('BlockStreamParser', () => {
+    test('streams blocks as they arrive', () => {
+        const reply = JSON.stringify({
+            blocks: [
+                { type: 'heading', content: 'Title' },
+                { type: 'paragraph', content: 'Line one\nwith "quotes"', citations: [1, 2] },
+                { type: 'list', items: ['first', 'second'] },
+                // The language is only announced if it comes before the type
+                { language: 'ts', type: 'code', content: 'let x = 1;' },
+            ],
+        });
+        const { parser, events } = parse(reply);
+
+        assert.deepEqual(
+            events.filter(e => e.type === 'block_start').map(e => e.type === 'block_start' && e.block),
+            [{ type: 'heading' }, { type: 'paragraph' }, { type: 'list' }, { type: 'code', language: 'ts' }]
+        );
+        assert.equal(streamedText(events, 0), 'Title');
+        assert.equal(streamedText(events, 1), 'Line one\nwith "quotes"');
+        assert.equal(streamedText(events, 2, 0), 'first');
+        assert.equal(streamedText(events, 2, 1), 'second');
+        assert.equal(streamedText(events, 3), 'let x = 1;');
+
+        assert.deepEqual(parser.blocks, [
+            { type: 'heading', content: 'Title' },
+            { type: 'paragraph', content: 'Line one\nwith "quotes"', citations: [1, 2] },
+            { type: 'list', items: ['first', 'second'] },
+            { type: 'code', language: 'ts', content: 'let x = 1;' },
+        ]);
+    });
+
+    test('every block is started before its text and ended after it', () => {
+        const { events } = parse('{"blocks": [{"type": "paragraph", "content": "One"}, {"type": "quote", "content": "Two"}]}', 1);
+        assert.deepEqual(events.map(e => `${e.type}:${e.index}`), [
+            'block_start:0', 'block_delta:0', 'block_delta:0', 'block_delta:0', 'block_end:0',
+            'block_start:1', 'block_delta:1', 'block_delta:1', 'block_delta:1', 'block_end:1',
+        ]);
+    });
+
+    test('announces a block with its real type when the content comes first', () => {
+        const { parser, events } = parse('{"blocks": [{"content": "Careful", "type": "quote"}]}');
+
+        const starts = events.filter(e => e.type === 'block_start');
+        assert.equal(starts.length, 1);
+        assert.deepEqual(starts[0].type === 'block_start' && starts[0].block, { type: 'quote' });
+        // The held-back text follows the start
+        assert.ok(events.indexOf(starts[0]) < events.findIndex(e => e.type === 'block_delta'));
+        assert.equal(streamedText(events, 0), 'Careful');
+        assert.deepEqual(parser.blocks, [{ type: 'quote', content: 'Careful' }]);
+    });
+
+    test('holds list items back until the type is known', () => {
+        const { events } = parse('{"blocks": [{"items": ["a", "b"], "type": "numbered_list"}]}');
+        assert.deepEqual(events[0], { type: 'block_start', index: 0, block: { type: 'numbered_list' } });
+        assert.equal(streamedText(events, 0, 0), 'a');
+        assert.equal(streamedText(events, 0, 1), 'b');
+    });
+
+    test('decodes escapes and unicode sequences', () => {
+        const { parser } = parse('{"blocks": [{"type": "paragraph", "content": "caf\\u00e9\\ttab\\\\"}]}');
+        assert.equal(parser.blocks[0].content, 'café\ttab\\');
+    });
+
+    test('skips a code fence around the JSON', () => {
+        const { parser } = parse('```json\n{"blocks": [{"type": "paragraph", "content": "Fenced"}]}\n```');
+        assert.deepEqual(parser.blocks, [{ type: 'paragraph', content: 'Fenced' }]);
+    });
+
+    test('streams a plain-text reply as one paragraph', () => {
+        const { parser, events } = parse('Just some **markdown**.');
+        assert.deepEqual(events[0], { type: 'block_start', index: 0, block: { type: 'paragraph' } });
+        assert.equal(streamedText(events, 0), 'Just some **markdown**.');
+        assert.deepEqual(parser.blocks, [{ type: 'paragraph', content: 'Just some **markdown**.' }]);
+    });
+
+    test('end() closes a block cut off mid-stream', () => {
+        const parser = new BlockStreamParser();
+        parser.push('{"blocks": [{"type": "paragraph", "content": "Cut of');
+        const events = parser.end();
+        assert.deepEqual(events, [
+            { type: 'block_end', index: 0, block: { type: 'paragraph', content: 'Cut of' } },
+        ]);
+    });
+});
@@ -0,0 +1,61 @@
+import './setup';
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import db, { initDb } from '../src/utils/db';
+import bm25Service from '../src/services/bm25.service';
+
+describe('Bm25Service', () => {
+    before(async () => {
+        // Run every statement in order, so the tables exist before the first query
+        db.serialize();
+        initDb();
+        await bm25Service.indexDocuments([
+            { id: 'orion', text: 'Orion is the rendering engine. Orion renders scenes.', metadata: { title: 'Orion' } },
+            { id: 'neo', text: 'Neo is the assistant that answers questions about the engine.', metadata: { title: 'Neo' } },
+            { id: 'spline', text: 'Spline tools for modelling curves.', metadata: { title: 'Spline' } },
+            { id: 'private', text: 'Orion budget notes.', namespace: 'conv-1' },
+        ]);
+    });
+
+    test('ranks documents by term frequency and rarity', async () => {
+        const matches = await bm25Service.search('orion engine');
+        assert.deepEqual(matches.map(m => m.id), ['orion', 'neo']);
+        assert.ok(matches[0].score > matches[1].score);
+        assert.deepEqual(matches[0].metadata, { title: 'Orion' });
+    });
+
+    test('returns nothing for stopwords or unknown terms', async () => {
+        assert.deepEqual(await bm25Service.search('what is the'), []);
+        assert.deepEqual(await bm25Service.search('quaternion'), []);
+    });
+
+    test('only searches a namespace when it is named', async () => {
+        assert.ok(!(await bm25Service.search('budget')).some(m => m.id === 'private'));
+        assert.deepEqual((await bm25Service.search('budget', 10, 'conv-1')).map(m => m.id), ['private']);
+        assert.deepEqual(await bm25Service.search('budget', 10, 'conv-2'), []);
+    });
+
+    test('re-indexing replaces a document and removal drops it', async () => {
+        await bm25Service.indexDocuments([{ id: 'spline', text: 'Spline now covers the engine too.' }]);
+        assert.ok((await bm25Service.search('engine')).some(m => m.id === 'spline'));
+        assert.deepEqual(await bm25Service.search('curves'), []);
+
+        await bm25Service.removeDocuments(['spline']);
+        assert.ok(!(await bm25Service.search('engine spline')).some(m => m.id === 'spline'));
+        assert.equal((await bm25Service.getStats()).documentCount, 2);
+        assert.equal((await bm25Service.getStats('conv-1')).documentCount, 3);
+    });
+
+    test("another conversation's documents do not change the scores", async () => {
+        const shared = await bm25Service.search('orion engine');
+        const own = await bm25Service.search('orion engine', 10, 'conv-1');
+
+        await bm25Service.indexDocuments([
+            { id: 'other-1', text: 'Orion orion orion, a long attachment about the Orion engine and nothing else.', namespace: 'conv-2' },
+            { id: 'other-2', text: 'More orion notes.', namespace: 'conv-2' },
+        ]);
+
+        assert.deepEqual(await bm25Service.search('orion engine'), shared);
+        assert.deepEqual(await bm25Service.search('orion engine', 10, 'conv-1'), own);
+    });
+});
@@ -0,0 +1,180 @@
+import './setup';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import db, { initDb } from '../src/utils/db';
+import chatRouter from '../src/routes/chatHelper.routes';
+import mockLlmService from '../src/services/mockLlm.service';
+import { getGeneralPrompt, getReasoningPrompt, withCanvasInstructions, withReasoningNotes } from '../src/utils/prompts';
+
+const ANSWER = { blocks: [{ type: 'paragraph', content: 'Scripted answer' }] };
+
+let server: Server;
+let baseUrl: string;
+
+function post(path: string, body: object): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+interface StreamEvent {
+    type: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Split an SSE body into its JSON events
+ */
+function readEvents(body: string): StreamEvent[] {
+    return body
+        .split('\n\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => JSON.parse(line.substring('data: '.length)) as StreamEvent);
+}
+
+describe('chat routes (mock LLM)', () => {
+    before(async () => {
+        db.serialize();
+        initDb();
+
+        const app = express();
+        app.use(express.json());
+        app.use('/api', chatRouter);
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    after(() => {
+        server.close();
+        db.close();
+    });
+
+    beforeEach(() => {
+        mockLlmService.reset();
+        mockLlmService.script([{ response: ANSWER }]);
+    });
+
+    test('POST /chat answers a general question with the general prompt', async () => {
+        const res = await post('/chat', { message: 'Write me a haiku about autumn' });
+        assert.equal(res.status, 200);
+
+        const body = await res.json();
+        assert.equal(body.mode, 'general');
+        assert.deepEqual(body.blocks, [{ type: 'paragraph', content: 'Scripted answer' }]);
+        assert.equal(body.metadata.llm.model, 'mock');
+        assert.ok(body.response_id);
+
+        assert.equal(mockLlmService.calls.length, 1);
+        assert.deepEqual(mockLlmService.lastCall(), {
+            method: 'completeJson',
+            model: 'mock',
+            systemPrompt: getGeneralPrompt(),
+            userMessage: 'Write me a haiku about autumn',
+            conversationHistory: [],
+        });
+    });
+
+    test('POST /chat sends the earlier exchange as history', async () => {
+        // Send the follow-up as written, so the answer is the only LLM call
+        process.env.CONDENSE_ENABLED = 'false';
+        try {
+            await post('/chat', { message: 'My name is Sam', conversation_id: 'history-test' });
+            await post('/chat', { message: 'What is my name?', conversation_id: 'history-test' });
+        } finally {
+            delete process.env.CONDENSE_ENABLED;
+        }
+
+        const { userMessage, conversationHistory } = mockLlmService.lastCall()!;
+        assert.equal(userMessage, 'What is my name?');
+        assert.deepEqual(conversationHistory.map(turn => [turn.role, turn.content]), [
+            ['user', 'My name is Sam'],
+            ['assistant', 'Scripted answer'],
+        ]);
+    });
+
+    test('POST /chat adds the canvas instructions in canvas mode', async () => {
+        const res = await post('/chat', { message: 'Write a guide to sourdough', mode: 'canvas' });
+        assert.equal(res.status, 200);
+        assert.equal(mockLlmService.lastCall()!.systemPrompt, withCanvasInstructions(getGeneralPrompt()));
+    });
+
+    test('POST /chat plans first in think mode and hands the plan to the answer', async () => {
+        mockLlmService.script([
+            { system: '^You are planning', response: { steps: ['Recall the season', 'Write three lines'] } },
+            { response: ANSWER },
+        ]);
+
+        const res = await post('/chat', { message: 'Write me a haiku about autumn', mode: 'think' });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.deepEqual(body.reasoning, ['Recall the season', 'Write three lines']);
+
+        const [plan, answer] = mockLlmService.calls;
+        assert.equal(plan.systemPrompt, getReasoningPrompt(''));
+        assert.equal(answer.systemPrompt, withReasoningNotes(getGeneralPrompt(), ['Recall the season', 'Write three lines']));
+    });
+
+    test('POST /chat answers without notes when the think pass fails', async () => {
+        mockLlmService.script([
+            { system: '^You are planning', error: { status: 400, message: 'Bad request' } },
+            { response: ANSWER },
+        ]);
+
+        const res = await post('/chat', { message: 'Write me a haiku about autumn', thinking: true });
+        assert.equal(res.status, 200);
+        const body = await res.json();
+        assert.equal(body.reasoning, undefined);
+        assert.equal(mockLlmService.lastCall()!.systemPrompt, getGeneralPrompt());
+    });
+
+    test('POST /chat rejects an unknown mode without calling the model', async () => {
+        const res = await post('/chat', { message: 'Hello', mode: 'poetry' });
+        assert.equal(res.status, 400);
+        assert.match((await res.json()).error, /Unknown mode "poetry"/);
+        assert.equal(mockLlmService.calls.length, 0);
+    });
+
+    test('POST /chat retries, then returns 503 when the model stays unavailable', async () => {
+        mockLlmService.script([{ error: { status: 503, message: 'Overloaded' } }]);
+
+        const res = await post('/chat', { message: 'Write me a haiku about autumn' });
+        assert.equal(res.status, 503);
+        assert.equal(mockLlmService.calls.length, 3);
+    });
+
+    test('POST /chat does not retry a request the model rejects', async () => {
+        mockLlmService.script([{ error: { status: 400, message: 'Bad request' } }]);
+
+        const res = await post('/chat', { message: 'Write me a haiku about autumn' });
+        assert.equal(res.status, 503);
+        assert.equal(mockLlmService.calls.length, 1);
+    });
+
+    test('POST /chat/stream streams the answer as block events', async () => {
+        mockLlmService.script([{
+            response: { blocks: [{ type: 'heading', content: 'Autumn' }, { type: 'list', items: ['Leaves', 'Rain'] }] },
+        }]);
+
+        const res = await post('/chat/stream', { message: 'List autumn things' });
+        assert.equal(res.status, 200);
+        const events = readEvents(await res.text());
+
+        assert.deepEqual(events.map(e => e.type).filter((type, i, all) => type !== all[i - 1]), [
+            'meta', 'block_start', 'block_delta', 'block_end', 'block_start', 'block_delta', 'block_end', 'done',
+        ]);
+        assert.deepEqual(events.filter(e => e.type === 'block_start').map(e => e.block), [{ type: 'heading' }, { type: 'list' }]);
+        assert.deepEqual(events[events.length - 1].blocks, [
+            { type: 'heading', content: 'Autumn' },
+            { type: 'list', items: ['Leaves', 'Rain'] },
+        ]);
+
+        assert.equal(mockLlmService.lastCall()!.method, 'stream');
+        assert.equal(mockLlmService.lastCall()!.systemPrompt, getGeneralPrompt());
+    });
+});
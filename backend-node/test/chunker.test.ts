@@ -0,0 +1,64 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkDocument, chunkMarkdown, chunkText, extractTitle, htmlToMarkdown } from '../src/utils/chunker';
+
+describe('chunkText', () => {
+    test('keeps short text in one chunk', () => {
+        assert.deepEqual(chunkText('One.\n\nTwo.', { chunkSize: 100, overlap: 10 }), ['One.\n\nTwo.']);
+    });
+
+    test('starts a new chunk at a paragraph boundary, carrying the overlap over', () => {
+        const text = ['alpha '.repeat(8).trim(), 'beta '.repeat(8).trim(), 'gamma '.repeat(8).trim()].join('\n\n');
+        const chunks = chunkText(text, { chunkSize: 60, overlap: 12 });
+
+        assert.equal(chunks.length, 3);
+        assert.ok(chunks.every(chunk => chunk.length <= 60 + 12));
+        assert.ok(chunks[1].startsWith('alpha'), 'overlap from the previous chunk');
+        assert.ok(chunks[1].endsWith('beta'));
+    });
+
+    test('hard-splits a paragraph longer than the chunk size at whitespace', () => {
+        const chunks = chunkText('word '.repeat(50).trim(), { chunkSize: 40, overlap: 0 });
+        assert.ok(chunks.length > 1);
+        assert.ok(chunks.every(chunk => chunk.length <= 40 && !chunk.startsWith(' ')));
+        assert.equal(chunks.join(' ').split(' ').length, 50);
+    });
+});
+
+describe('chunkMarkdown', () => {
+    test('prefixes each chunk with its heading and records the heading path', () => {
+        const markdown = '# Orion\n\nIntro.\n\n## Architecture\n\nLayers.\n\n# Neo\n\nAssistant.';
+        assert.deepEqual(chunkMarkdown(markdown), [
+            { text: 'Orion\n\nIntro.', index: 0, section: 'Orion' },
+            { text: 'Architecture\n\nLayers.', index: 1, section: 'Orion > Architecture' },
+            { text: 'Neo\n\nAssistant.', index: 2, section: 'Neo' },
+        ]);
+    });
+
+    test('ignores heading-like lines inside code fences', () => {
+        const chunks = chunkMarkdown('# Setup\n\n```sh\n# install\nnpm i\n```');
+        assert.equal(chunks.length, 1);
+        assert.equal(chunks[0].section, 'Setup');
+        assert.match(chunks[0].text, /# install/);
+    });
+});
+
+describe('htmlToMarkdown', () => {
+    test('keeps headings and list items and drops other markup', () => {
+        const html = '<html><head><title>T</title></head><body><h2>Intro</h2><p>Hello &amp; <b>welcome</b></p><ul><li>a</li><li>b</li></ul><script>x()</script></body></html>';
+        assert.equal(htmlToMarkdown(html), '## Intro\n\nHello & welcome\n\n- a\n- b');
+    });
+
+    test('chunks HTML through its markdown form', () => {
+        const [chunk] = chunkDocument('<h1>Title</h1><p>Body</p>', 'html');
+        assert.deepEqual(chunk, { text: 'Title\n\nBody', index: 0, section: 'Title' });
+    });
+});
+
+describe('extractTitle', () => {
+    test('reads the first H1 or HTML title', () => {
+        assert.equal(extractTitle('Intro\n# Real Title\n## Sub', 'markdown'), 'Real Title');
+        assert.equal(extractTitle('<title> Page </title><h1>Heading</h1>', 'html'), 'Page');
+        assert.equal(extractTitle('# Not a title in text', 'text'), null);
+    });
+});
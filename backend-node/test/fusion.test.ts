@@ -0,0 +1,91 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FusionCandidate, fuseCandidates, resolveFusionOptions, validateFusionRequest } from '../src/utils/fusion';
+import { FusionOptions, FusionRequest } from '../src/types/fusion';
+
+function candidate(semanticScore: number, keywordScore: number, feedbackScore = 0): FusionCandidate {
+    return {
+        semanticScore,
+        keywordScore,
+        feedbackScore,
+        appearsInBoth: semanticScore > 0 && keywordScore > 0,
+        ranks: { semantic: null, keyword: null, feedback: null },
+        finalScore: 0,
+    };
+}
+
+const options = (overrides: Partial<FusionOptions>): FusionOptions => ({
+    strategy: 'weighted',
+    weights: { alpha: 0.6, beta: 0.3, gamma: 0.1 },
+    rrfK: 60,
+    bothBoost: 0.05,
+    ...overrides,
+});
+
+describe('fuseCandidates', () => {
+    test('assigns 1-based ranks per signal, null where a signal did not score', () => {
+        const candidates = [candidate(0.5, 0), candidate(0.9, 0.2), candidate(0, 0.8, -1)];
+        fuseCandidates(candidates, options({}));
+
+        assert.deepEqual(candidates.map(c => c.ranks), [
+            { semantic: 2, keyword: null, feedback: null },
+            { semantic: 1, keyword: 2, feedback: null },
+            { semantic: null, keyword: 1, feedback: null },
+        ]);
+    });
+
+    test('weighted adds raw scores plus the both-retrievers bonus', () => {
+        const [both, semanticOnly] = [candidate(0.5, 0.5, 1), candidate(0.5, 0)];
+        fuseCandidates([both, semanticOnly], options({ strategy: 'weighted' }));
+
+        assert.equal(both.finalScore.toFixed(4), (0.3 + 0.15 + 0.1 + 0.05).toFixed(4));
+        assert.equal(semanticOnly.finalScore.toFixed(4), '0.3000');
+    });
+
+    test('minmax normalizes each signal across the candidates', () => {
+        const candidates = [candidate(0.8, 0.1), candidate(0.4, 0.3), candidate(0.6, 0.2)];
+        fuseCandidates(candidates, options({ strategy: 'minmax', weights: { alpha: 1, beta: 1, gamma: 0 } }));
+
+        assert.deepEqual(candidates.map(c => c.finalScore.toFixed(2)), ['1.00', '1.00', '1.00']);
+    });
+
+    test('minmax keeps the sign of feedback', () => {
+        const [liked, disliked] = [candidate(0.5, 0, 2), candidate(0.5, 0, -1)];
+        fuseCandidates([liked, disliked], options({ strategy: 'minmax', weights: { alpha: 0, beta: 0, gamma: 1 } }));
+
+        assert.equal(liked.finalScore, 1);
+        assert.equal(disliked.finalScore, -0.5);
+    });
+
+    test('rrf scores by rank and scales the best possible score to 1', () => {
+        const [top, second] = [candidate(0.9, 0.9), candidate(0.1, 0.1)];
+        fuseCandidates([top, second], options({ strategy: 'rrf', weights: { alpha: 1, beta: 1, gamma: 0 }, rrfK: 60 }));
+
+        assert.equal(top.finalScore, 1);
+        assert.equal(second.finalScore.toFixed(4), (61 / 62).toFixed(4));
+    });
+});
+
+describe('validateFusionRequest', () => {
+    test('accepts a missing or valid request', () => {
+        assert.equal(validateFusionRequest(undefined), null);
+        assert.equal(validateFusionRequest({ strategy: 'rrf', weights: { alpha: 1 }, rrf_k: 10 }), null);
+    });
+
+    test('rejects unknown strategies, negative weights and a non-positive rrf_k', () => {
+        // Parsed from a request body, so the strategy can be any string
+        const unknownStrategy: FusionRequest = JSON.parse('{"strategy": "best"}');
+        assert.match(validateFusionRequest(unknownStrategy)!, /Unknown fusion strategy "best"/);
+        assert.match(validateFusionRequest({ weights: { beta: -1 } })!, /"beta" must be a non-negative number/);
+        assert.match(validateFusionRequest({ rrf_k: 0 })!, /rrf_k must be a positive number/);
+    });
+});
+
+describe('resolveFusionOptions', () => {
+    test('per-request values override the defaults', () => {
+        const resolved = resolveFusionOptions({ strategy: 'minmax', weights: { beta: 0.5 } });
+        assert.equal(resolved.strategy, 'minmax');
+        assert.deepEqual(resolved.weights, { alpha: 0.6, beta: 0.5, gamma: 0.1 });
+        assert.equal(resolved.rrfK, 60);
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenize, wordPattern } from '../src/utils/keywords';
+
+describe('wordPattern', () => {
+    test('matches whole words, case-insensitively', () => {
+        const pattern = wordPattern('neo');
+        assert.ok(pattern.test('Ask Neo about it'));
+        assert.ok(pattern.test('neo'));
+        assert.ok(pattern.test('(NEO)'));
+    });
+
+    test('does not match inside a longer word', () => {
+        const pattern = wordPattern('neo');
+        assert.ok(!pattern.test('neon lights'));
+        assert.ok(!pattern.test('the neophyte'));
+        assert.ok(!pattern.test('neo2'));
+        assert.ok(!pattern.test('éneo'));
+    });
+
+    test('matches phrases across any whitespace', () => {
+        const pattern = wordPattern('our system');
+        assert.ok(pattern.test('how does our  system\nwork'));
+        assert.ok(!pattern.test('our systems'));
+    });
+
+    test('escapes regex characters in the trigger', () => {
+        const pattern = wordPattern('c++');
+        assert.ok(pattern.test('written in C++ mostly'));
+        assert.ok(!pattern.test('written in c mostly'));
+    });
+});
+
+describe('tokenize', () => {
+    test('lowercases and drops stopwords', () => {
+        assert.deepEqual(tokenize('What is the Orion architecture?'), ['orion', 'architecture']);
+    });
+});
@@ -0,0 +1,52 @@
+import './setup';
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import db, { initDb } from '../src/utils/db';
+import localVectorService from '../src/services/localVector.service';
+import { matchesFilter } from '../src/utils/metadataFilter';
+
+describe('matchesFilter', () => {
+    const metadata = { type: 'document', tags: ['orion', 'docs'], chunk_index: 3 };
+
+    test('matches equality, array membership and comparisons', () => {
+        assert.ok(matchesFilter(metadata, { type: 'document' }));
+        assert.ok(matchesFilter(metadata, { tags: 'orion' }));
+        assert.ok(matchesFilter(metadata, { tags: { $in: ['neo', 'docs'] } }));
+        assert.ok(matchesFilter(metadata, { chunk_index: { $gte: 3, $lt: 4 } }));
+        assert.ok(!matchesFilter(metadata, { tags: { $nin: ['docs'] } }));
+        assert.ok(!matchesFilter(metadata, { type: { $ne: 'document' } }));
+    });
+
+    test('combines filters with $and, $or and $exists', () => {
+        assert.ok(matchesFilter(metadata, { $or: [{ type: 'correction' }, { tags: 'orion' }] }));
+        assert.ok(!matchesFilter(metadata, { $and: [{ type: 'document' }, { namespace: { $exists: true } }] }));
+    });
+
+    test('rejects unknown operators', () => {
+        assert.throws(() => matchesFilter(metadata, { type: { $like: 'doc' } }), /Unsupported metadata filter operator/);
+    });
+});
+
+describe('LocalVectorService', () => {
+    before(async () => {
+        db.serialize();
+        initDb();
+        await localVectorService.upsert([{ id: 'shared', values: [1, 0], metadata: { text: 'Shared' } }]);
+        await localVectorService.upsert([{ id: 'attachment', values: [1, 0], metadata: { text: 'Attachment' } }], 'conv-1');
+    });
+
+    test('queries one namespace at a time', async () => {
+        assert.deepEqual((await localVectorService.query([1, 0], { topK: 5 })).map(m => m.id), ['shared']);
+        assert.deepEqual((await localVectorService.query([1, 0], { topK: 5, namespace: 'conv-1' })).map(m => m.id), ['attachment']);
+    });
+
+    test('only deletes records in the given namespace', async () => {
+        await localVectorService.delete(['shared', 'attachment'], 'conv-2');
+        await localVectorService.delete(['attachment']);
+        assert.equal((await localVectorService.fetch(['shared'])).length, 1);
+        assert.equal((await localVectorService.fetch(['attachment'], 'conv-1')).length, 1);
+
+        await localVectorService.delete(['attachment'], 'conv-1');
+        assert.deepEqual(await localVectorService.fetch(['attachment'], 'conv-1'), []);
+    });
+});
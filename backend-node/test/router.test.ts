@@ -0,0 +1,25 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import routerService from '../src/services/router.service';
+
+// No embedding model in tests, so these route on triggers alone
+describe('RouterService', () => {
+    test('answers messages addressed to Neo as general', async () => {
+        const decision = await routerService.route('Neo, what can you do?');
+        assert.equal(decision.mode, 'general');
+        assert.deepEqual(decision.triggers, []);
+    });
+
+    test('routes strong triggers to the knowledge base', async () => {
+        const decision = await routerService.route('Who works on the Neo project?');
+        assert.equal(decision.mode, 'rag_strong');
+        assert.deepEqual(decision.triggers, ['neo project', 'project']);
+    });
+
+    test('routes weak triggers only to rag_weak', async () => {
+        const decision = await routerService.route('Where are the internal docs?');
+        assert.equal(decision.mode, 'rag_weak');
+        assert.deepEqual(decision.triggers, ['internal', 'docs']);
+    });
+});
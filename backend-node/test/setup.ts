@@ -0,0 +1,9 @@
+/**
+ * Test environment: scripted LLM, throwaway database, no model downloads.
+ * Imported first by tests that load services, since the database opens on import.
+ */
+
+process.env.LLM_PROVIDER = 'mock';
+process.env.SQLITE_PATH = ':memory:';
+process.env.EMBEDDING_LOCAL_FILES_ONLY = 'true';
+process.env.LLM_RETRY_BASE_MS = '1';
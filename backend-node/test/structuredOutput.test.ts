@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { blocksSchema, extractJsonObject, parseStructured, StructuredOutputError } from '../src/utils/structuredOutput';
+
+describe('extractJsonObject', () => {
+    test('reads a bare object', () => {
+        assert.deepEqual(extractJsonObject('{"a": 1}'), { a: 1 });
+    });
+
+    test('ignores code fences, preambles and trailing chatter', () => {
+        const text = 'Sure! Here you go:\n```json\n{"blocks": []}\n```\nLet me know if you need more.';
+        assert.deepEqual(extractJsonObject(text), { blocks: [] });
+    });
+
+    test('skips brace-delimited prose that is not JSON', () => {
+        assert.deepEqual(extractJsonObject('Use {name} as a placeholder. {"ok": true}'), { ok: true });
+    });
+
+    test('skips a stray opening brace that never closes', () => {
+        assert.deepEqual(extractJsonObject('The set { is open. {"ok": true}'), { ok: true });
+    });
+
+    test('is not confused by braces inside strings', () => {
+        assert.deepEqual(extractJsonObject('{"text": "a } and a \\" {"}'), { text: 'a } and a " {' });
+    });
+
+    test('fails with no_json when there is no object', () => {
+        assert.throws(() => extractJsonObject('No JSON here'), (error: unknown) =>
+            error instanceof StructuredOutputError && error.reason === 'no_json');
+        assert.throws(() => extractJsonObject('{"truncated": "repl'), StructuredOutputError);
+    });
+});
+
+describe('parseStructured', () => {
+    test('returns valid blocks', () => {
+        const value = parseStructured('{"blocks": [{"type": "paragraph", "content": "Hi"}]}', blocksSchema);
+        assert.equal(value.blocks.length, 1);
+        assert.equal(value.blocks[0].type, 'paragraph');
+        assert.equal(value.blocks[0].content, 'Hi');
+    });
+
+    test('fails with schema issues for the wrong shape', () => {
+        assert.throws(() => parseStructured('{"blocks": [{"type": "banner"}]}', blocksSchema), (error: unknown) =>
+            error instanceof StructuredOutputError && error.reason === 'schema' && error.issues.length > 0);
+    });
+});
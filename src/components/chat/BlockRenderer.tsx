@@ -1,7 +1,61 @@
-import type { Block } from '@/types/chat';
+import type { Block, Citation } from '@/types/chat';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
+// [n] markers that aren't glued to a word, so `arr[1]` is left alone
+const CITATION_MARKER = /(?<!\w)\[(\d{1,3})\]/g;
+const CITATION_HREF = '#cite-';
+
+function CitationMarker({ citation }: { citation: Citation }) {
+  return (
+    <span className="relative inline-block group/cite">
+      <sup className="ml-0.5 cursor-help text-[10px] font-medium text-emerald-400/80 hover:text-emerald-300">
+        {citation.index}
+      </sup>
+      <span
+        role="tooltip"
+        className="pointer-events-none invisible opacity-0 group-hover/cite:visible group-hover/cite:opacity-100 transition-opacity absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 z-20 rounded-lg border border-white/10 bg-zinc-900/95 backdrop-blur-sm p-3 text-left text-xs not-italic font-normal shadow-xl"
+      >
+        <span className="flex items-center justify-between gap-2 mb-1">
+          <span className="font-medium text-white/90 truncate">{citation.title}</span>
+          <span className="font-mono text-emerald-400/80">{citation.score.toFixed(2)}</span>
+        </span>
+        {citation.snippet && (
+          <span className="block text-zinc-400 leading-5 line-clamp-4">{citation.snippet}</span>
+        )}
+      </span>
+    </span>
+  );
+}
+
+function findCitation(citations: Citation[], index: number) {
+  return citations.find(c => c.index === index);
+}
+
+// Plain-text blocks: split around markers. Markers without a known source are dropped.
+function withCitations(text: string | undefined, citations?: Citation[]) {
+  if (!text || !citations) return text;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    parts.push(text.slice(last, match.index));
+    const citation = findCitation(citations, Number(match[1]));
+    if (citation) parts.push(<CitationMarker key={match.index} citation={citation} />);
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+// Markdown blocks: turn markers into links that the `a` renderer swaps for CitationMarker
+function linkCitations(text: string | undefined, citations?: Citation[]) {
+  if (!text || !citations) return text;
+  return text.replace(CITATION_MARKER, (_, n) =>
+    findCitation(citations, Number(n)) ? `[${n}](${CITATION_HREF}${n})` : ''
+  );
+}
+
 export function BlockRenderer({ block }: { block: Block }) {
   switch (block.type) {
 
@@ -9,7 +63,7 @@ export function BlockRenderer({ block }: { block: Block }) {
       return (
         <ul className="list-disc list-outside ml-4 mb-4 space-y-2 text-zinc-300">
           {block.items?.map((item, i) => (
-            <li key={i} className="pl-1">{item}</li>
+            <li key={i} className="pl-1">{withCitations(item, block.citations)}</li>
           ))}
         </ul>
       );
@@ -17,14 +71,14 @@ export function BlockRenderer({ block }: { block: Block }) {
       return (
         <ol className="list-decimal list-outside ml-4 mb-4 space-y-2 text-zinc-300">
           {block.items?.map((item, i) => (
-            <li key={i} className="pl-1">{item}</li>
+            <li key={i} className="pl-1">{withCitations(item, block.citations)}</li>
           ))}
         </ol>
       );
     case 'quote':
       return (
         <blockquote className="border-l-2 border-emerald-500/50 pl-4 italic text-zinc-400 my-4 text-lg">
-          "{block.content}"
+          "{withCitations(block.content, block.citations)}"
         </blockquote>
       );
     case 'paragraph':
@@ -33,17 +87,23 @@ export function BlockRenderer({ block }: { block: Block }) {
           <ReactMarkdown
             remarkPlugins={[remarkGfm]}
             components={{
-              p: ({ children }: { children?: React.ReactNode }) => <p className="mb-0">{children}</p>
+              p: ({ children }: { children?: React.ReactNode }) => <p className="mb-0">{children}</p>,
+              a: ({ href, children }: { href?: string; children?: React.ReactNode }) => {
+                const citation = href?.startsWith(CITATION_HREF) && block.citations
+                  ? findCitation(block.citations, Number(href.slice(CITATION_HREF.length)))
+                  : undefined;
+                return citation ? <CitationMarker citation={citation} /> : <a href={href}>{children}</a>;
+              }
             }}
           >
-            {block.content}
+            {linkCitations(block.content, block.citations)}
           </ReactMarkdown>
         </div>
       );
     case 'heading':
       return (
         <h3 className="text-xl font-medium text-white/90 mt-8 mb-4 tracking-tight">
-          {block.content}
+          {withCitations(block.content, block.citations)}
         </h3>
       );
     case 'code':
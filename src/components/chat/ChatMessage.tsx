@@ -1,10 +1,36 @@
-import type { Message } from '@/types/chat';
+import type { Message, MessageFeedback, ResponseMode } from '@/types/chat';
 import { cn } from '@/lib/utils';
 import { BlockRenderer } from './BlockRenderer';
+import { FeedbackControls } from './FeedbackControls';
 import { motion } from 'framer-motion';
-import { Sparkles, Monitor, Brain, Share2 } from 'lucide-react';
+import { Sparkles, Monitor, Brain, Share2, Database, MessageCircle, CircleSlash } from 'lucide-react';
 
-export function ChatMessage({ message }: { message: Message }) {
+const RESPONSE_MODES = {
+  general: { icon: MessageCircle, label: 'General', color: 'text-zinc-400 border-zinc-400/20 bg-zinc-400/10' },
+  rag: { icon: Database, label: 'Knowledge Base', color: 'text-emerald-400 border-emerald-400/20 bg-emerald-400/10' },
+  fallback: { icon: CircleSlash, label: 'No Match', color: 'text-rose-400 border-rose-400/20 bg-rose-400/10' },
+};
+
+// How the answer was produced: plain LLM, grounded in documents, or no grounding found
+function ResponseBadge({ mode }: { mode?: ResponseMode }) {
+  const config = mode ? RESPONSE_MODES[mode] : undefined;
+  if (!config) return null;
+  const Icon = config.icon;
+
+  return (
+    <div className={cn("inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full border text-[10px] font-medium uppercase tracking-wider select-none", config.color)}>
+      <Icon className="w-3 h-3" />
+      {config.label}
+    </div>
+  );
+}
+
+interface ChatMessageProps {
+  message: Message;
+  onFeedback?: (feedback: MessageFeedback) => void;
+}
+
+export function ChatMessage({ message, onFeedback }: ChatMessageProps) {
   const isUser = message.role === 'user';
   
   // Interaction Mode Badges
@@ -67,6 +93,7 @@ export function ChatMessage({ message }: { message: Message }) {
                     <Sparkles className="w-3 h-3 text-white" />
                 </div>
                 <span className="text-xs font-medium tracking-widest uppercase">System</span>
+                <ResponseBadge mode={message.responseMode} />
             </div>
             
             {/* Reasoning Panel */}
@@ -99,6 +126,52 @@ export function ChatMessage({ message }: { message: Message }) {
                     <BlockRenderer key={i} block={block} />
                 ))}
             </div>
+
+            {message.stopped && (
+                <div className="mb-4 text-xs font-mono text-zinc-500 uppercase tracking-wider">Stopped</div>
+            )}
+            {message.interrupted && (
+                <div className="mb-4 text-xs font-mono text-rose-400/80 uppercase tracking-wider">Interrupted: response incomplete</div>
+            )}
+
+            {/* Sources Panel */}
+            {message.sources && message.sources.length > 0 && (
+                <details className="mt-2 group">
+                    <summary className="list-none cursor-pointer select-none inline-flex items-center gap-2 text-xs font-mono text-zinc-500 hover:text-zinc-300 transition-colors">
+                        <span className="group-open:rotate-90 transition-transform duration-200">▶</span>
+                         SOURCES ({message.sources.length})
+                    </summary>
+                    <div className="mt-3 space-y-2">
+                        {message.sources.map((source, i) => (
+                            <div key={i} className="rounded-lg border border-white/5 bg-white/[0.02] px-4 py-3">
+                                <div className="flex items-baseline justify-between gap-4">
+                                    <span className="text-sm text-zinc-200 truncate">
+                                        <span className="font-mono text-emerald-400/80 mr-2">[{source.index ?? i + 1}]</span>
+                                        {source.title}
+                                    </span>
+                                    <span className="font-mono text-xs text-zinc-400 shrink-0">{source.score.toFixed(3)}</span>
+                                </div>
+                                <div className="mt-1 font-mono text-[11px] text-zinc-500 truncate">{source.source}</div>
+                                <div className="mt-2 flex gap-4 font-mono text-[11px] text-zinc-500">
+                                    {source.semanticScore !== undefined && <span>semantic {source.semanticScore.toFixed(3)}</span>}
+                                    {source.keywordScore !== undefined && <span>keyword {source.keywordScore.toFixed(3)}</span>}
+                                    {source.rerankScore !== undefined && <span>rerank {source.rerankScore.toFixed(3)}</span>}
+                                    <span>final {source.score.toFixed(3)}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </details>
+            )}
+
+            {/* Feedback (needs the id the backend logged the response under) */}
+            {message.responseId && onFeedback && (
+                <FeedbackControls
+                    responseId={message.responseId}
+                    feedback={message.feedback}
+                    onSubmitted={onFeedback}
+                />
+            )}
         </div>
     </motion.div>
   );
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown, Check, Loader2 } from 'lucide-react';
+import type { FeedbackValue, MessageFeedback } from '@/types/chat';
+import { submitFeedback } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface FeedbackControlsProps {
+  responseId: string;
+  feedback?: MessageFeedback;
+  onSubmitted: (feedback: MessageFeedback) => void;
+}
+
+export function FeedbackControls({ responseId, feedback, onSubmitted }: FeedbackControlsProps) {
+  const [showCorrection, setShowCorrection] = useState(false);
+  const [correction, setCorrection] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (value: FeedbackValue, correctionText?: string) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitFeedback(responseId, value, correctionText);
+      onSubmitted({ value, correction: correctionText, submittedAt: Date.now() });
+      setShowCorrection(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send feedback');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Already rated: show the result instead of the controls
+  if (feedback) {
+    const Icon = feedback.value === 1 ? ThumbsUp : ThumbsDown;
+    return (
+      <div className="mt-4 flex flex-col gap-2 text-xs text-zinc-500">
+        <div className="inline-flex items-center gap-2">
+          <Icon className="w-3.5 h-3.5 text-emerald-400/80" />
+          <span>Thanks for the feedback{feedback.correction ? ' and the correction' : ''}.</span>
+        </div>
+        {feedback.correction && (
+          <p className="pl-4 border-l border-white/10 text-zinc-400 whitespace-pre-wrap">{feedback.correction}</p>
+        )}
+      </div>
+    );
+  }
+
+  const buttonClass = "p-1.5 rounded-md text-zinc-500 hover:text-zinc-200 hover:bg-white/5 transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          title="Helpful"
+          className={buttonClass}
+          disabled={isSubmitting}
+          onClick={() => send(1)}
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          title="Not helpful"
+          className={cn(buttonClass, showCorrection && "text-rose-400 bg-white/5")}
+          disabled={isSubmitting}
+          onClick={() => setShowCorrection(open => !open)}
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+        </button>
+        {isSubmitting && <Loader2 className="w-3.5 h-3.5 ml-1 animate-spin text-zinc-500" />}
+      </div>
+
+      {/* Thumbs down: optional correction, sent with the negative rating */}
+      {showCorrection && (
+        <div className="mt-3 flex flex-col gap-2">
+          <textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            placeholder="What should the answer have been? (optional)"
+            rows={3}
+            className="w-full resize-y rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2 text-sm text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-white/20"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-md text-xs text-zinc-400 hover:text-zinc-200"
+              onClick={() => setShowCorrection(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={isSubmitting}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs bg-white/10 text-zinc-200 hover:bg-white/15 disabled:opacity-40"
+              onClick={() => send(-1, correction.trim() || undefined)}
+            >
+              <Check className="w-3 h-3" />
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-rose-400">{error}</p>}
+    </div>
+  );
+}
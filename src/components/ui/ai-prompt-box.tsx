@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from "react";
-import { Plus, ChevronDown, ArrowUp, X, FileText, Loader2, Check, Archive } from "lucide-react";
+import { Plus, ChevronDown, ArrowUp, X, FileText, Loader2, Check, Archive, Square } from "lucide-react";
 
 /* --- ICONS --- */
 export const Icons = {
@@ -41,12 +41,21 @@ const formatFileSize = (bytes: number) => {
 /* --- COMPONENTS --- */
 
 // 1. File Preview Card
-interface AttachedFile {
+type UploadStatus = 'uploading' | 'complete' | 'error';
+
+// Files and pasted snippets are uploaded as conversation attachments as soon as they are added
+interface UploadState {
+    uploadStatus: UploadStatus;
+    progress: number; // 0-1
+    error?: string;
+    attachmentId?: string; // Set once the server has stored it
+}
+
+interface AttachedFile extends UploadState {
     id: string;
     file: File;
     type: string;
     preview: string | null;
-    uploadStatus: string;
 }
 
 interface FilePreviewCardProps {
@@ -95,16 +104,27 @@ const FilePreviewCard: React.FC<FilePreviewCardProps> = ({ file, onRemove }) =>
 
             {/* Upload Status */}
             {file.uploadStatus === 'uploading' && (
-                <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
+                <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center gap-1">
                     <Icons.Loader2 className="w-5 h-5 text-white animate-spin" />
+                    <span className="text-[10px] font-medium text-white">{Math.round(file.progress * 100)}%</span>
                 </div>
             )}
+            <UploadError state={file} />
+        </div>
+    );
+};
+
+const UploadError: React.FC<{ state: UploadState }> = ({ state }) => {
+    if (state.uploadStatus !== 'error') return null;
+    return (
+        <div className="absolute inset-x-0 bottom-0 bg-red-600/90 px-2 py-1" title={state.error}>
+            <p className="text-[10px] font-medium text-white line-clamp-2">{state.error || 'Upload failed'}</p>
         </div>
     );
 };
 
 // 2. Pasted Content Card
-interface PastedContentItem {
+interface PastedContentItem extends UploadState {
     id: string;
     content: string;
     timestamp: Date;
@@ -128,7 +148,11 @@ const PastedContentCard: React.FC<PastedContentCardProps> = ({ content, onRemove
                 <div className="inline-flex items-center justify-center px-1.5 py-[2px] rounded border border-[#E5E5E5] dark:border-[#404040] bg-white dark:bg-transparent">
                     <span className="text-[9px] font-bold text-[#6B7280] dark:text-[#9CA3AF] uppercase tracking-wider font-sans">PASTED</span>
                 </div>
+                {content.uploadStatus === 'uploading' && (
+                    <span className="text-[9px] font-medium text-[#9CA3AF]">{Math.round(content.progress * 100)}%</span>
+                )}
             </div>
+            <UploadError state={content} />
 
             <button
                 onClick={() => onRemove(content.id)}
@@ -242,27 +266,38 @@ interface ClaudeChatInputProps {
         message: string;
         files: AttachedFile[];
         pastedContent: PastedContentItem[];
-        model: string;
+        model?: string;
         isThinkingEnabled: boolean
     }) => void;
+    isStreaming?: boolean; // A response is being generated; the send button becomes Stop
+    onStop?: () => void;
+    models?: Model[]; // The selector is hidden until there are models to pick from
+    selectedModel?: string;
+    onModelChange?: (modelId: string) => void;
+    // Store a file as a conversation attachment; resolves with the server's attachment id
+    onUploadFile?: (file: File, onProgress: (fraction: number) => void) => Promise<{ id: string }>;
+    onRemoveAttachment?: (attachmentId: string) => void;
 }
 
-export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage }) => {
+export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({
+    onSendMessage,
+    isStreaming = false,
+    onStop,
+    models = [],
+    selectedModel,
+    onModelChange,
+    onUploadFile,
+    onRemoveAttachment,
+}) => {
     const [message, setMessage] = useState("");
     const [files, setFiles] = useState<AttachedFile[]>([]);
     const [pastedContent, setPastedContent] = useState<PastedContentItem[]>([]);
     const [isDragging, setIsDragging] = useState(false);
-    const [selectedModel, setSelectedModel] = useState("sonnet-4.5");
     const [isThinkingEnabled, setIsThinkingEnabled] = useState(false);
 
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
-
-    const models = [
-        { id: "opus-4.5", name: "Opus 4.5", description: "Most capable for complex work" },
-        { id: "sonnet-4.5", name: "Sonnet 4.5", description: "Best for everyday tasks" },
-        { id: "haiku-4.5", name: "Haiku 4.5", description: "Fastest for quick answers" }
-    ];
+    const removedRef = useRef(new Set<string>()); // Items removed while their upload was still running
 
     // Auto-resize textarea
     useEffect(() => {
@@ -272,39 +307,64 @@ export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage
         }
     }, [message]);
 
+    // Upload one item, reporting progress and the outcome through `update`
+    const startUpload = useCallback((id: string, file: File, update: (id: string, patch: Partial<UploadState>) => void) => {
+        if (!onUploadFile) {
+            update(id, { uploadStatus: 'error', error: 'Attachments are not available here' });
+            return;
+        }
+        onUploadFile(file, progress => update(id, { progress }))
+            .then(attachment => {
+                // Removed before the upload finished: drop it from the conversation again
+                if (removedRef.current.delete(id)) {
+                    onRemoveAttachment?.(attachment.id);
+                    return;
+                }
+                update(id, { uploadStatus: 'complete', progress: 1, attachmentId: attachment.id });
+            })
+            .catch((err: Error) => {
+                removedRef.current.delete(id);
+                update(id, { uploadStatus: 'error', error: err.message });
+            });
+    }, [onUploadFile, onRemoveAttachment]);
+
+    const updateFile = useCallback((id: string, patch: Partial<UploadState>) => {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+    }, []);
+
+    const updatePasted = useCallback((id: string, patch: Partial<UploadState>) => {
+        setPastedContent(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+    }, []);
+
     // File Handling
     const handleFiles = useCallback((newFilesList: FileList | File[]) => {
-        const newFiles = Array.from(newFilesList).map(file => {
+        const newFiles: AttachedFile[] = Array.from(newFilesList).map(file => {
             const isImage = file.type.startsWith('image/') || /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(file.name);
             return {
                 id: Math.random().toString(36).substr(2, 9),
                 file,
                 type: isImage ? 'image/unknown' : (file.type || 'application/octet-stream'), // Force image type if detected by extension
                 preview: isImage ? URL.createObjectURL(file) : null,
-                uploadStatus: 'pending'
+                uploadStatus: 'uploading',
+                progress: 0
             };
         });
 
-        // Simulate Upload
         setFiles(prev => [...prev, ...newFiles]);
 
-        // Dynamic Feedback Message
+        // Suggest a question about the new files
         setMessage(prev => {
             if (prev) return prev;
-            if (newFiles.length === 1) {
-                const f = newFiles[0];
-                if (f.type.startsWith('image/')) return "Analyzed image...";
-                return "Analyzed document...";
-            }
-            return `Analyzed ${newFiles.length} files...`;
+            return newFiles.length === 1 ? "Summarize the attached file." : "Summarize the attached files.";
         });
 
-        newFiles.forEach(f => {
-            setTimeout(() => {
-                setFiles(prev => prev.map(p => p.id === f.id ? { ...p, uploadStatus: 'complete' } : p));
-            }, 800 + Math.random() * 1000);
-        });
-    }, []);
+        newFiles.forEach(f => startUpload(f.id, f.file, updateFile));
+    }, [startUpload, updateFile]);
+
+    const removeItem = (item: UploadState & { id: string }) => {
+        if (item.attachmentId) onRemoveAttachment?.(item.attachmentId);
+        else if (item.uploadStatus === 'uploading') removedRef.current.add(item.id);
+    };
 
     // Drag & Drop
     const onDragOver = (e: React.DragEvent) => { e.preventDefault(); setIsDragging(true); };
@@ -336,21 +396,25 @@ export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage
         const text = e.clipboardData.getData('text');
         if (text.length > 300) {
             e.preventDefault();
-            const snippet = {
+            const snippet: PastedContentItem = {
                 id: Math.random().toString(36).substr(2, 9),
                 content: text,
-                timestamp: new Date()
+                timestamp: new Date(),
+                uploadStatus: 'uploading',
+                progress: 0
             };
             setPastedContent(prev => [...prev, snippet]);
+            startUpload(snippet.id, new File([text], `pasted-${snippet.id}.txt`, { type: 'text/plain' }), updatePasted);
 
             if (!message) {
-                setMessage("Analyzed pasted text...");
+                setMessage("Summarize the pasted text.");
             }
         }
     };
 
     const handleSend = () => {
         if (!message.trim() && files.length === 0 && pastedContent.length === 0) return;
+        if (isUploading) return;
         onSendMessage({ message, files, pastedContent, model: selectedModel, isThinkingEnabled });
         setMessage("");
         setFiles([]);
@@ -361,11 +425,13 @@ export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
-            handleSend();
+            if (!isStreaming) handleSend();
         }
     };
 
+    const isUploading = [...files, ...pastedContent].some(item => item.uploadStatus === 'uploading');
     const hasContent = message.trim() || files.length > 0 || pastedContent.length > 0;
+    const canSend = hasContent && !isUploading;
 
     return (
         <div
@@ -391,14 +457,20 @@ export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage
                                 <PastedContentCard
                                     key={content.id}
                                     content={content}
-                                    onRemove={id => setPastedContent(prev => prev.filter(c => c.id !== id))}
+                                    onRemove={id => {
+                                        removeItem(content);
+                                        setPastedContent(prev => prev.filter(c => c.id !== id));
+                                    }}
                                 />
                             ))}
                             {files.map(file => (
                                 <FilePreviewCard
                                     key={file.id}
                                     file={file}
-                                    onRemove={id => setFiles(prev => prev.filter(f => f.id !== id))}
+                                    onRemove={id => {
+                                        removeItem(file);
+                                        setFiles(prev => prev.filter(f => f.id !== id));
+                                    }}
                                 />
                             ))}
                         </div>
@@ -455,22 +527,34 @@ export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage
                         {/* Right Tools */}
                         <div className="flex flex-row items-center min-w-0 gap-1">
                             {/* Model Selector */}
-                            <div className="shrink-0 p-1 -m-1">
-                                <ModelSelector
-                                    models={models}
-                                    selectedModel={selectedModel}
-                                    onSelect={setSelectedModel}
-                                />
-                            </div>
+                            {models.length > 0 && (
+                                <div className="shrink-0 p-1 -m-1">
+                                    <ModelSelector
+                                        models={models}
+                                        selectedModel={selectedModel ?? models[0].id}
+                                        onSelect={modelId => onModelChange?.(modelId)}
+                                    />
+                                </div>
+                            )}
 
-                            {/* Send Button */}
+                            {/* Send / Stop Button */}
                             <div>
+                                {isStreaming ? (
+                                <button
+                                    onClick={onStop}
+                                    className="inline-flex items-center justify-center relative shrink-0 transition-colors active:scale-95 !rounded-xl !h-8 !w-8 bg-accent text-bg-0 hover:bg-accent-hover shadow-md"
+                                    type="button"
+                                    aria-label="Stop generating"
+                                >
+                                    <Square className="w-3.5 h-3.5 fill-current" />
+                                </button>
+                                ) : (
                                 <button
                                     onClick={handleSend}
-                                    disabled={!hasContent}
+                                    disabled={!canSend}
                                     className={`
                                         inline-flex items-center justify-center relative shrink-0 transition-colors h-8 w-8 rounded-md active:scale-95 !rounded-xl !h-8 !w-8
-                                        ${hasContent
+                                        ${canSend
                                             ? 'bg-accent text-bg-0 hover:bg-accent-hover shadow-md'
                                             : 'bg-accent/30 text-bg-0/60 cursor-default'}
                                     `}
@@ -479,6 +563,7 @@ export const ClaudeChatInput: React.FC<ClaudeChatInputProps> = ({ onSendMessage
                                 >
                                     <ArrowUp className="w-4 h-4" />
                                 </button>
+                                )}
                             </div>
                         </div>
                     </div>
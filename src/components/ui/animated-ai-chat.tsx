@@ -131,9 +131,10 @@ Textarea.displayName = "Textarea"
 
 interface AnimatedAIChatProps {
     onSendMessage?: (message: string) => void;
+    input?: React.ReactNode; // Replaces the built-in input and its suggestions (e.g. with the full prompt box)
 }
 
-export function AnimatedAIChat({ onSendMessage }: AnimatedAIChatProps) {
+export function AnimatedAIChat({ onSendMessage, input }: AnimatedAIChatProps) {
     const [value, setValue] = useState("");
     const [attachments, setAttachments] = useState<string[]>([]);
     const [isTyping, setIsTyping] = useState(false);
@@ -341,6 +342,8 @@ export function AnimatedAIChat({ onSendMessage }: AnimatedAIChatProps) {
                         </motion.p>
                     </div>
 
+                    {input ?? (
+                    <>
                     <motion.div 
                         className="relative backdrop-blur-2xl bg-black/60 rounded-2xl border border-white/10 shadow-2xl"
                         initial={{ scale: 0.98 }}
@@ -531,6 +534,8 @@ export function AnimatedAIChat({ onSendMessage }: AnimatedAIChatProps) {
                             </motion.button>
                         ))}
                     </div>
+                    </>
+                    )}
                 </motion.div>
             </div>
 
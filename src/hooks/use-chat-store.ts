@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import type { Conversation, Message, Role } from '@/types/chat';
+import type { Conversation, Message, MessageFeedback, Role } from '@/types/chat';
 import { detectIntent, generateTitle, generateId } from '@/lib/chat-utils';
 
 const STORAGE_KEY = 'antigravity_chats';
@@ -108,6 +108,13 @@ export function useChatStore() {
    * Update the last message in the active conversation (for streaming)
    */
   const updateLastMessage = (content: string, forceId?: string) => {
+    patchLastMessage({ content }, forceId);
+  };
+
+  /**
+   * Merge fields into the last message, e.g. stream metadata (mode, sources, ids)
+   */
+  const patchLastMessage = (patch: Partial<Omit<Message, 'id' | 'role'>>, forceId?: string) => {
     const targetId = forceId || activeId;
     if (!targetId) return;
 
@@ -117,7 +124,7 @@ export function useChatStore() {
         const lastIndex = updatedMessages.length - 1;
         updatedMessages[lastIndex] = {
           ...updatedMessages[lastIndex],
-          content,
+          ...patch,
         };
         return {
           ...c,
@@ -129,6 +136,26 @@ export function useChatStore() {
     }));
   };
 
+  /**
+   * Persist submitted feedback on a specific assistant message
+   */
+  const setMessageFeedback = (conversationId: string, messageId: string, feedback: MessageFeedback) => {
+    setConversations(prev => prev.map(c => {
+      if (c.id !== conversationId) return c;
+      return {
+        ...c,
+        messages: c.messages.map(m => m.id === messageId ? { ...m, feedback } : m),
+      };
+    }));
+  };
+
+  /**
+   * Remember the chat model picked for a conversation
+   */
+  const setConversationModel = (conversationId: string, model: string) => {
+    setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, model } : c));
+  };
+
   return {
     conversations,
     activeId,
@@ -138,6 +165,9 @@ export function useChatStore() {
     deleteConversation,
     sendMessage,
     updateLastMessage,
+    patchLastMessage,
+    setMessageFeedback,
+    setConversationModel,
     isLoaded
   };
 }
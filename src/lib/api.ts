@@ -0,0 +1,116 @@
+import type { AttachmentInfo, FeedbackValue, ModelInfo } from '@/types/chat';
+
+export const API_BASE_URL = 'http://localhost:8000/api';
+
+/**
+ * Error carrying the HTTP status and the backend's `error` message
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(data.error || `Request failed (${response.status})`, response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Rate an assistant response. A correction is only used with negative feedback.
+ */
+export function submitFeedback(responseId: string, feedback: FeedbackValue, correction?: string) {
+  return postJson<{ status: string; message: string }>('/feedback', {
+    response_id: responseId,
+    feedback,
+    ...(correction ? { correction } : {}),
+  });
+}
+
+async function deleteResource(path: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}${path}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || `Request failed (${response.status})`, response.status);
+  }
+}
+
+function conversationPath(conversationId: string) {
+  return `/conversations/${encodeURIComponent(conversationId)}`;
+}
+
+/**
+ * Drop the server-side memory (history and summary) of a conversation
+ */
+export function clearConversationMemory(conversationId: string) {
+  return deleteResource(`${conversationPath(conversationId)}/memory`);
+}
+
+/**
+ * Upload a file as an attachment of a conversation. Uses XHR rather than fetch
+ * so that upload progress (0-1) can be reported.
+ */
+export function uploadAttachment(
+  conversationId: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<AttachmentInfo> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${API_BASE_URL}${conversationPath(conversationId)}/attachments`);
+    xhr.responseType = 'json';
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      const data = xhr.response || {};
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(data.attachment as AttachmentInfo);
+      } else {
+        reject(new ApiError(data.error || `Upload failed (${xhr.status})`, xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(new ApiError('Upload failed: backend unreachable', 0));
+
+    const form = new FormData();
+    form.append('file', file);
+    xhr.send(form);
+  });
+}
+
+export function deleteAttachment(conversationId: string, attachmentId: string) {
+  return deleteResource(`${conversationPath(conversationId)}/attachments/${encodeURIComponent(attachmentId)}`);
+}
+
+/**
+ * Remove every attachment of a conversation from the backend's index
+ */
+export function clearAttachments(conversationId: string) {
+  return deleteResource(`${conversationPath(conversationId)}/attachments`);
+}
+
+/**
+ * Chat models the backend allows, with the one it uses by default
+ */
+export async function fetchModels() {
+  const response = await fetch(`${API_BASE_URL}/models`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(data.error || `Request failed (${response.status})`, response.status);
+  }
+  return data as { models: ModelInfo[]; default_model: string | null };
+}
@@ -1,4 +1,4 @@
-import type { InteractionMode, Block } from '@/types/chat';
+import type { Block, BlockStreamEvent, InteractionMode, ModelInfo, RetrievalEvent } from '@/types/chat';
 
 export function detectIntent(message: string): { mode: InteractionMode; cleanMessage: string } {
   const trimmed = message.trim();
@@ -56,71 +56,67 @@ export function generateId(): string {
   return Math.random().toString(36).substring(2, 15);
 }
 
-interface SimulatedResponse {
-  content: string; // JSON string
-  reasoning?: string[];
+/**
+ * Model selector subtitle: the catalogue description plus the context window
+ */
+export function describeModel(model: ModelInfo): string {
+  const contextWindow = model.context_window
+    ? `${model.context_window >= 1000 ? `${Math.round(model.context_window / 1000)}K` : model.context_window} context`
+    : '';
+  return [model.description, contextWindow].filter(Boolean).join(' · ') || model.id;
 }
 
-export function generateSystemResponse(userMessage: string, mode: InteractionMode): SimulatedResponse {
-  const lower = userMessage.toLowerCase();
-  const isBored = lower.includes("i'm bored") || lower.includes("im bored") || lower === "bored";
-
-  // 1. Boredom Mode
-  if (isBored) {
-    const activity = {
-      title: "Analyze the texture of a nearby object",
-      why: "It forces you to shift from internal noise to external observation, grounding your attention immediately.",
-      steps: ["Find an object (wood, fabric, metal).", "Close your eyes and touch it for 30 seconds.", "Describe the texture in your mind without naming the object."]
-    };
-
-    const blocks: Block[] = [
-      { type: 'heading', content: activity.title },
-      { type: 'paragraph', content: activity.why },
-      { type: 'numbered_list', items: activity.steps },
-      { type: 'paragraph', content: "Let me know what you find, or if you want another observation task." }
-    ];
-
-    return { content: JSON.stringify({ blocks }) };
-  }
-
-  // 2. Think Mode
-  if (mode === 'think') {
-    const reasoning = [
-      "Analyze user input for core constraints",
-      "Identify potential ambiguities in the request",
-      "Evaluate optimal response structure",
-      "Formulate detailed explanation"
-    ];
-
-    const blocks: Block[] = [
-      { type: 'heading', content: 'Analysis' },
-      { type: 'paragraph', content: `I have engaged deep reasoning to address your thought: "${userMessage}".` },
-      { type: 'paragraph', content: "Here is the structural breakdown of the concept:" },
-      { type: 'list', items: ["Core Axiom: Definition of the problem space.", "Variable A: Contextual constraints.", "Variable B: Desired outcome."] },
-      { type: 'divider' },
-      { type: 'paragraph', content: "Conclusion: The approach requires a systematic reduction of noise." }
-    ];
-
-    return { content: JSON.stringify({ blocks }), reasoning };
+const formatScore = (score: number | null) => (score === null ? '-' : score.toFixed(2));
+
+/**
+ * One REASONING_TRACE line per retrieval progress event
+ */
+export function describeRetrievalEvent(event: RetrievalEvent): string {
+  switch (event.type) {
+    case 'query_rewrite':
+      return `Reading the follow-up as "${event.query}"`;
+    case 'hop_start':
+      if (event.stage === 'template') {
+        return `Reusing the decomposition of "${event.template_query}" (similarity ${formatScore(event.similarity ?? null)})`;
+      }
+      return event.stage === 'initial'
+        ? 'Searching the knowledge base'
+        : `Hop ${event.hop}: checking whether the context is sufficient`;
+    case 'hop_queries':
+      return event.sufficient
+        ? `Hop ${event.hop}: context is sufficient`
+        : `Hop ${event.hop}: sub-queries ${event.queries.map(q => `"${q}"`).join(', ')}`;
+    case 'hop_results':
+      return `Found ${event.count} results for "${event.query}" (top score ${formatScore(event.top_score)})`;
+    case 'retrieval_done':
+      return `Retrieval done: ${event.total_results} documents, ${event.hops} hop(s) (top score ${formatScore(event.top_score)})`;
   }
+}
 
-  // 3. Code/Technical (Heuristic)
-  if (lower.includes("code") || lower.includes("function") || lower.includes("react")) {
-    const blocks: Block[] = [
-      { type: 'paragraph', content: "Here is the implementation of the requested pattern." },
-      { type: 'code', language: 'typescript', content: `function example() {\n  return "This is a structured response.";\n}` },
-      { type: 'paragraph', content: "Note how the structure allows for clear separation of concerns." }
-    ];
-    return { content: JSON.stringify({ blocks }) };
+/**
+ * Fold a streamed block event into the blocks received so far (returns a new array)
+ */
+export function applyBlockEvent(blocks: Block[], event: BlockStreamEvent): Block[] {
+  const next = [...blocks];
+  switch (event.type) {
+    case 'block_start':
+      next[event.index] = { ...event.block, content: '' };
+      break;
+    case 'block_delta': {
+      const block = next[event.index];
+      if (!block) break;
+      if (event.item === undefined) {
+        next[event.index] = { ...block, content: (block.content || '') + event.text };
+      } else {
+        const items = [...(block.items || [])];
+        items[event.item] = (items[event.item] || '') + event.text;
+        next[event.index] = { ...block, items };
+      }
+      break;
+    }
+    case 'block_end':
+      next[event.index] = event.block;
+      break;
   }
-
-  // 4. Default Standard Response
-  const blocks: Block[] = [
-    { type: 'paragraph', content: "I understand. Let's explore this idea further." },
-    { type: 'quote', content: "Clarity is the counter-balance to complexity." },
-    { type: 'paragraph', content: "We should consider the following aspects:" },
-    { type: 'list', items: ["Immediate implications", "Long-term sustainability", "Hidden externalities"] }
-  ];
-
-  return { content: JSON.stringify({ blocks }) };
+  return next;
 }
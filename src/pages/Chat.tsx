@@ -4,11 +4,14 @@ import { AnimatedAIChat } from "@/components/ui/animated-ai-chat";
 import { useState, useEffect, useRef } from "react";
 
 import { useChatStore } from "@/hooks/use-chat-store";
+import { API_BASE_URL, clearAttachments, clearConversationMemory, deleteAttachment, fetchModels, uploadAttachment } from "@/lib/api";
+import { applyBlockEvent, describeModel, describeRetrievalEvent, detectIntent } from "@/lib/chat-utils";
+import type { Block, ModelInfo } from "@/types/chat";
 import { ChatSidebar } from "@/components/chat/ChatSidebar";
 import { ChatMessage } from "@/components/chat/ChatMessage";
 import { Menu } from "lucide-react";
 
-const STREAM_API_URL = "http://localhost:8000/api/chat/stream";
+const STREAM_API_URL = `${API_BASE_URL}/chat/stream`;
 
 export default function Chat() {
   const {
@@ -17,6 +20,9 @@ export default function Chat() {
     activeConversation,
     sendMessage,
     updateLastMessage,
+    patchLastMessage,
+    setMessageFeedback,
+    setConversationModel,
     setActiveId,
     createConversation,
     deleteConversation,
@@ -26,6 +32,32 @@ export default function Chat() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const pendingIdRef = useRef<string | null>(null); // Created by ensureConversation, until it becomes active
+  const [modelCatalogue, setModelCatalogue] = useState<{ models: ModelInfo[]; default_model: string | null } | null>(null);
+
+  // Models the backend allows; without them the selector stays hidden and the server default is used
+  useEffect(() => {
+    fetchModels()
+      .then(setModelCatalogue)
+      .catch(err => console.warn('Failed to load models:', err));
+  }, []);
+
+  // The conversation's pick, unless the server no longer offers it
+  const conversationModel = activeConversation?.model;
+  const selectedModel = modelCatalogue?.models.some(m => m.id === conversationModel)
+    ? conversationModel
+    : modelCatalogue?.default_model ?? undefined;
+  const modelOptions = (modelCatalogue?.models || []).map(model => ({
+    id: model.id,
+    name: model.name,
+    description: describeModel(model),
+    badge: model.default ? 'Default' : undefined,
+  }));
+
+  useEffect(() => {
+    pendingIdRef.current = null;
+  }, [activeId]);
 
   // Auto-scroll
   useEffect(() => {
@@ -36,10 +68,22 @@ export default function Chat() {
     const rawContent = typeof data === 'string' ? data : data.message;
     if (!rawContent.trim() || isLoading) return;
 
+    // [Think:] / [Search:] / [Canvas:] prefixes pick the interaction mode; the prompt box's toggle adds thinking
+    const { mode: intentMode, cleanMessage } = detectIntent(rawContent);
+    const thinking = typeof data !== 'string' && Boolean(data.isThinkingEnabled);
+    // A question sent with attachments is about them: retrieve even if the router would answer from general knowledge
+    const hasAttachments = typeof data !== 'string'
+      && [...data.files, ...data.pastedContent].some((item: { attachmentId?: string }) => item.attachmentId);
+    const mode = intentMode === 'default' && hasAttachments ? 'search' : intentMode;
+
     // 1. Send user message and get the persistent ID
     const currentChatId = sendMessage(rawContent, 'user');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let blocks: Block[] = [];
+
     try {
       // 2. Create placeholder for assistant message ensuring it goes to the same chat
       sendMessage(JSON.stringify({ blocks: [{ type: 'paragraph', content: '...' }] }), 'assistant', undefined, currentChatId);
@@ -48,10 +92,14 @@ export default function Chat() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          message: rawContent,
+          message: cleanMessage,
           // 3. Use the confirmed ID
-          conversation_id: currentChatId
-        })
+          conversation_id: currentChatId,
+          mode,
+          thinking,
+          model: selectedModel
+        }),
+        signal: controller.signal
       });
 
       if (!response.ok) throw new Error('API request failed');
@@ -59,8 +107,8 @@ export default function Chat() {
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
-      let fullContent = '';
       let buffer = '';
+      const reasoning: string[] = [];
 
       while (true) {
         const { done, value } = await reader.read();
@@ -75,27 +123,40 @@ export default function Chat() {
             try {
               const event = JSON.parse(line.slice(6));
 
-              if (event.type === 'chunk') {
-                fullContent += event.data;
+              if (['query_rewrite', 'hop_start', 'hop_queries', 'hop_results', 'retrieval_done'].includes(event.type)) {
+                // Live retrieval progress for the REASONING_TRACE panel
+                reasoning.push(describeRetrievalEvent(event));
+                patchLastMessage({ reasoning: [...reasoning] }, currentChatId);
+              } else if (event.type === 'reasoning') {
+                // Think mode: the plan behind the answer
+                reasoning.push(...event.steps);
+                patchLastMessage({ reasoning: [...reasoning] }, currentChatId);
+              } else if (event.type === 'meta') {
+                patchLastMessage({
+                  responseMode: event.mode,
+                  sources: event.sources,
+                  requestId: event.request_id
+                }, currentChatId);
+              } else if (['block_start', 'block_delta', 'block_end'].includes(event.type)) {
+                blocks = applyBlockEvent(blocks, event);
                 // 4. Update using the explicit ID to bypass stale state
-                updateLastMessage(JSON.stringify({
-                  blocks: [{ type: 'paragraph', content: fullContent }]
-                }), currentChatId);
+                updateLastMessage(JSON.stringify({ blocks }), currentChatId);
               } else if (event.type === 'done') {
-                // Parse final content as JSON blocks if valid
-                try {
-                  const parsed = JSON.parse(fullContent);
-                  if (parsed.blocks) {
-                    updateLastMessage(JSON.stringify(parsed), currentChatId);
-                  }
-                } catch {
-                  // Keep as plain text paragraph
+                patchLastMessage({ responseId: event.response_id }, currentChatId);
+                // Final blocks, with the [n] markers resolved by the server
+                if (event.blocks?.length) {
+                  blocks = event.blocks;
+                  updateLastMessage(JSON.stringify({ blocks }), currentChatId);
+                }
+              } else if (event.type === 'error') {
+                if (event.partial) {
+                  // Generation failed mid-answer: keep what arrived, flagged as incomplete
+                  patchLastMessage({ interrupted: true }, currentChatId);
+                } else {
                   updateLastMessage(JSON.stringify({
-                    blocks: [{ type: 'paragraph', content: fullContent }]
+                    blocks: [{ type: 'paragraph', content: 'Sorry, I encountered an error. Please try again.' }]
                   }), currentChatId);
                 }
-              } else if (event.type === 'error') {
-                throw new Error(event.message);
               }
             } catch (parseError) {
               console.warn('Failed to parse SSE event:', line);
@@ -104,6 +165,14 @@ export default function Chat() {
         }
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever was streamed so far
+        updateLastMessage(JSON.stringify({
+          blocks: blocks.length ? blocks : [{ type: 'paragraph', content: '' }]
+        }), currentChatId);
+        patchLastMessage({ stopped: true }, currentChatId);
+        return;
+      }
       console.error('Chat API error:', error);
       // Ensure error message goes to critical chat
       updateLastMessage(JSON.stringify({
@@ -111,10 +180,29 @@ export default function Chat() {
       }), currentChatId); // Use variable if available, but here we might need to be careful if it failed before assignment. 
       // Actually currentChatId is const in scope, so it is available safely.
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    deleteConversation(id);
+    // The backend keeps its own copy of the history; forget it too
+    clearConversationMemory(id).catch(err => console.warn('Failed to clear conversation memory:', err));
+    clearAttachments(id).catch(err => console.warn('Failed to clear conversation attachments:', err));
+  };
+
+  // Picking a model or attaching a file before the first message needs a conversation to hold it
+  const ensureConversation = () => {
+    if (activeId) return activeId;
+    pendingIdRef.current ??= createConversation();
+    return pendingIdRef.current;
+  };
+
   const handleNewChat = () => {
     createConversation();
     // On mobile, maybe close sidebar?
@@ -123,6 +211,22 @@ export default function Chat() {
 
   if (!isLoaded) return null; // Or loading spinner
 
+  const promptBox = (
+    <PromptInputBox
+      onSendMessage={handleSendMessage}
+      isStreaming={isLoading}
+      onStop={handleStop}
+      models={modelOptions}
+      selectedModel={selectedModel}
+      onModelChange={model => setConversationModel(ensureConversation(), model)}
+      onUploadFile={(file, onProgress) => uploadAttachment(ensureConversation(), file, onProgress)}
+      onRemoveAttachment={attachmentId => {
+        deleteAttachment(ensureConversation(), attachmentId)
+          .catch(err => console.warn('Failed to remove attachment:', err));
+      }}
+    />
+  );
+
   return (
     <div className="flex h-screen w-full bg-black relative overflow-hidden font-sans">
       {/* Sidebar */}
@@ -131,7 +235,7 @@ export default function Chat() {
         activeId={activeId}
         onSelect={setActiveId}
         onNew={handleNewChat}
-        onDelete={deleteConversation}
+        onDelete={handleDeleteConversation}
         isOpen={sidebarOpen}
         setIsOpen={setSidebarOpen}
       />
@@ -166,22 +270,26 @@ export default function Chat() {
         <main className="flex-1 w-full relative z-10 overflow-y-auto p-0 scrollbar-thin scrollbar-thumb-zinc-800 pb-32">
           {!activeConversation || activeConversation.messages.length === 0 ? (
             <div className="w-full h-full flex flex-col justify-center">
-              <AnimatedAIChat onSendMessage={handleSendMessage} />
+              <AnimatedAIChat onSendMessage={handleSendMessage} input={promptBox} />
             </div>
           ) : (
             <div className="max-w-4xl mx-auto w-full px-4 py-8">
               {activeConversation.messages.map((msg) => (
-                <ChatMessage key={msg.id} message={msg} />
+                <ChatMessage
+                  key={msg.id}
+                  message={msg}
+                  onFeedback={(feedback) => setMessageFeedback(activeConversation.id, msg.id, feedback)}
+                />
               ))}
               <div ref={messagesEndRef} />
             </div>
           )}
         </main>
 
-        {/* Input Area (Only show if chat is active) */}
+        {/* Input Area (the empty state shows it in its hero instead) */}
         {activeConversation && activeConversation.messages.length > 0 && (
           <div className="absolute bottom-6 w-full max-w-3xl px-4 z-30 left-1/2 -translate-x-1/2">
-            <PromptInputBox onSendMessage={handleSendMessage} />
+            {promptBox}
           </div>
         )}
 
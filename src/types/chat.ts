@@ -2,11 +2,56 @@ export type Role = 'user' | 'assistant' | 'system';
 
 export type InteractionMode = 'think' | 'search' | 'canvas' | 'default';
 
+export interface Citation {
+  index: number; // matches the [n] marker in the text
+  title: string;
+  source: string;
+  snippet: string;
+  score: number;
+}
+
 export interface Block {
   type: 'heading' | 'paragraph' | 'list' | 'numbered_list' | 'code' | 'quote' | 'divider';
   content?: string;
   items?: string[]; // for lists
   language?: string; // for code
+  citations?: Citation[]; // sources behind the [n] markers
+}
+
+// How the backend produced an assistant answer
+export type ResponseMode = 'general' | 'rag' | 'fallback';
+
+export interface Source {
+  index: number;
+  title: string;
+  source: string;
+  score: number; // final fused score
+  semanticScore?: number;
+  keywordScore?: number;
+  rerankScore?: number;
+  snippet?: string;
+}
+
+// Multi-hop retrieval progress streamed before the answer
+export type RetrievalEvent =
+  | { type: 'query_rewrite'; original: string; query: string }
+  | { type: 'hop_start'; hop: number; stage: 'initial' | 'template' | 'sufficiency'; template_query?: string; similarity?: number }
+  | { type: 'hop_queries'; hop: number; queries: string[]; sufficient: boolean }
+  | { type: 'hop_results'; hop: number; query: string; count: number; top_score: number | null }
+  | { type: 'retrieval_done'; hops: number; total_results: number; top_score: number | null };
+
+// Answer blocks streamed as the model writes them; block_end carries the final block
+export type BlockStreamEvent =
+  | { type: 'block_start'; index: number; block: Pick<Block, 'type' | 'language'> }
+  | { type: 'block_delta'; index: number; text: string; item?: number }
+  | { type: 'block_end'; index: number; block: Block };
+
+export type FeedbackValue = 1 | -1;
+
+export interface MessageFeedback {
+  value: FeedbackValue;
+  correction?: string;
+  submittedAt: number;
 }
 
 export interface Message {
@@ -15,6 +60,13 @@ export interface Message {
   content: string; // Stored as JSON string for assistant, plain text for user
   reasoning?: string[]; // Array of reasoning steps
   mode?: InteractionMode;
+  responseMode?: ResponseMode; // assistant only
+  sources?: Source[]; // documents that grounded a RAG answer
+  requestId?: string;
+  responseId?: string; // id used for feedback
+  feedback?: MessageFeedback;
+  stopped?: boolean; // generation was cancelled by the user
+  interrupted?: boolean; // generation failed part-way through; content is incomplete
   timestamp: number;
 }
 
@@ -22,7 +74,27 @@ export interface Conversation {
   id: string;
   title: string;
   messages: Message[];
+  model?: string; // Chat model picked for this conversation; server default when unset
   summary?: string[]; // Conversation summary bullet points
   createdAt: number;
   updatedAt: number;
 }
+
+// A chat model offered by GET /api/models
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  context_window: number | null; // tokens
+  capabilities: { streaming: boolean; json_mode: boolean };
+  default: boolean;
+}
+
+// A file stored in a conversation's attachment namespace (POST /api/conversations/:id/attachments)
+export interface AttachmentInfo {
+  id: string;
+  title: string;
+  source: string;
+  chunk_count: number;
+  char_count: number;
+}